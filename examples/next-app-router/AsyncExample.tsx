@@ -152,7 +152,7 @@ export default function AsyncExample() {
           onError={(error) => {
             setResult({
               success: false,
-              message: `reCAPTCHA error: ${error}`
+              message: `reCAPTCHA error: ${error.message}`
             });
           }}
         />
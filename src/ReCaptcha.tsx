@@ -2,6 +2,7 @@
 
 import React, { forwardRef, useImperativeHandle } from 'react';
 import { ReCaptchaInstance, ReCaptchaProps } from './types';
+import { ReCaptchaConsentPlaceholder } from './ReCaptchaConsentPlaceholder';
 import useReCaptcha from './useReCaptcha';
 
 /**
@@ -29,6 +30,12 @@ import useReCaptcha from './useReCaptcha';
  *   onVerify={handleVerification}
  * />
  * <button onClick={handleSubmit}>Submit Form</button>
+ *
+ * // Submitting the token with a form (e.g. to a Server Action)
+ * <form action={serverAction}>
+ *   <ReCaptcha siteKey="your-site-key" inputName="g-recaptcha-response" />
+ *   <button type="submit">Send</button>
+ * </form>
  * 
  * // Using async/await with executeAsync
  * const handleSubmitAsync = async () => {
@@ -44,20 +51,34 @@ import useReCaptcha from './useReCaptcha';
  */
 const ReCaptcha = forwardRef<ReCaptchaInstance, ReCaptchaProps>((props, ref) => {
   const {
+    // Widget options fall back to ReCaptchaProvider, then to the hook defaults
     siteKey,
-    theme = 'light',
-    size = 'normal',
-    tabIndex = 0,
+    theme,
+    size,
+    tabIndex,
     language,
-    badge = 'bottomright',
+    badge,
     onVerify,
     onExpired,
     onError,
     onLoad,
+    onExpiringSoon,
+    onStatusChange,
+    expiringSoonThresholdMs,
+    autoRefresh,
     id,
     className,
     explicit = false,
-    hideBadge = false
+    loadStrategy,
+    consent,
+    consentPlaceholder,
+    onConsentGranted,
+    hideBadge,
+    inputName,
+    nonce,
+    scriptOptions,
+    executeTimeoutMs,
+    executeConcurrency
   } = props;
 
   // Use the reCAPTCHA hook
@@ -69,7 +90,16 @@ const ReCaptcha = forwardRef<ReCaptchaInstance, ReCaptchaProps>((props, ref) =>
     getResponse,
     isLoaded,
     isReady,
-    error
+    error,
+    status,
+    token,
+    verifiedAt,
+    expiresAt,
+    hasConsent,
+    grantConsent,
+    load,
+    render,
+    destroy
   } = useReCaptcha({
     siteKey,
     theme,
@@ -81,28 +111,66 @@ const ReCaptcha = forwardRef<ReCaptchaInstance, ReCaptchaProps>((props, ref) =>
     onExpired,
     onError,
     onLoad,
+    onExpiringSoon,
+    onStatusChange,
+    expiringSoonThresholdMs,
+    autoRefresh,
     autoLoad: !explicit,
-    hideBadge
+    loadStrategy,
+    consent,
+    onConsentGranted,
+    hideBadge,
+    nonce,
+    scriptOptions,
+    executeTimeoutMs,
+    executeConcurrency
   });
 
-  // Expose methods via ref
+  // Expose methods and the token via ref
   useImperativeHandle(ref, () => ({
     execute,
     executeAsync,
     reset,
-    getResponse
-  }), [execute, executeAsync, reset, getResponse]);
+    getResponse,
+    load,
+    render,
+    destroy,
+    token,
+    verifiedAt,
+    expiresAt
+  }), [
+    execute,
+    executeAsync,
+    reset,
+    getResponse,
+    load,
+    render,
+    destroy,
+    token,
+    verifiedAt,
+    expiresAt
+  ]);
 
   // Render the container for reCAPTCHA
   return (
-    <div
-      id={id}
-      className={className}
-      ref={containerRef}
-      data-recaptcha-loaded={isLoaded}
-      data-recaptcha-ready={isReady}
-      data-recaptcha-error={error ? 'true' : 'false'}
-    />
+    <>
+      {!hasConsent &&
+        (typeof consentPlaceholder === 'function'
+          ? consentPlaceholder(grantConsent)
+          : consentPlaceholder ?? (
+              <ReCaptchaConsentPlaceholder grantConsent={grantConsent} />
+            ))}
+      <div
+        id={id}
+        className={className}
+        ref={containerRef}
+        data-recaptcha-loaded={isLoaded}
+        data-recaptcha-ready={isReady}
+        data-recaptcha-error={error ? 'true' : 'false'}
+        data-recaptcha-status={status}
+      />
+      {inputName && <input type="hidden" name={inputName} value={token ?? ''} />}
+    </>
   );
 });
 
@@ -0,0 +1,66 @@
+'use client';
+
+import React, { type ReactNode } from 'react';
+
+/**
+ * Props for the ReCaptchaConsentPlaceholder component
+ */
+export interface ReCaptchaConsentPlaceholderProps {
+  /**
+   * Grant consent and load the widget
+   */
+  grantConsent: () => void;
+
+  /**
+   * Explanation of why the check needs Google's script
+   */
+  message?: ReactNode;
+
+  /**
+   * Label of the button granting consent
+   * @default 'Allow and continue'
+   */
+  allowLabel?: ReactNode;
+
+  /**
+   * CSS class name for the placeholder
+   */
+  className?: string;
+}
+
+/**
+ * Shown by `ReCaptcha` in place of the widget until consent is given.
+ * Render it yourself from `consentPlaceholder` to change the wording.
+ *
+ * @example
+ * ```tsx
+ * <ReCaptcha
+ *   siteKey="your-site-key"
+ *   consent={hasMarketingConsent}
+ *   consentPlaceholder={(grantConsent) => (
+ *     <ReCaptchaConsentPlaceholder
+ *       grantConsent={grantConsent}
+ *       message="Nous utilisons Google reCAPTCHA pour bloquer les robots."
+ *       allowLabel="Autoriser et continuer"
+ *     />
+ *   )}
+ * />
+ * ```
+ */
+export const ReCaptchaConsentPlaceholder = ({
+  grantConsent,
+  message = 'This form is protected by Google reCAPTCHA. Checking that you are not a robot loads a script from Google, which receives information about your device and browser.',
+  allowLabel = 'Allow and continue',
+  className
+}: ReCaptchaConsentPlaceholderProps) => {
+  return (
+    <div className={className} data-recaptcha-consent-placeholder="">
+      <p>{message}</p>
+      <button type="button" onClick={grantConsent}>
+        {allowLabel}
+      </button>
+    </div>
+  );
+};
+
+export default ReCaptchaConsentPlaceholder;
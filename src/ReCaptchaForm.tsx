@@ -0,0 +1,234 @@
+'use client';
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useRef,
+  useState,
+  type FormEvent,
+  type FormHTMLAttributes,
+  type ReactNode
+} from 'react';
+import ReCaptcha from './ReCaptcha';
+import { ReCaptchaInstance, ReCaptchaProps } from './types';
+
+/**
+ * Submission state exposed by `ReCaptchaForm` to its children
+ */
+export interface ReCaptchaFormState {
+  /**
+   * Whether a submission is waiting for a token or for `onSubmit`
+   */
+  isSubmitting: boolean;
+
+  /**
+   * Why the last submission failed: a `ReCaptchaError` from the challenge,
+   * or whatever `onSubmit` threw
+   */
+  error: Error | null;
+
+  /**
+   * Clear `error`, e.g. when the user edits the form again
+   */
+  clearError: () => void;
+}
+
+/**
+ * Props for the ReCaptchaForm component
+ */
+export interface ReCaptchaFormProps
+  extends Omit<FormHTMLAttributes<HTMLFormElement>, 'onSubmit' | 'children'> {
+  /**
+   * The site key provided by Google reCAPTCHA
+   * Required unless supplied by a `ReCaptchaProvider`
+   */
+  siteKey?: string;
+
+  /**
+   * Options for the invisible widget the form owns
+   */
+  recaptcha?: Omit<
+    ReCaptchaProps,
+    'siteKey' | 'size' | 'explicit' | 'inputName' | 'id' | 'className'
+  >;
+
+  /**
+   * Name of the hidden input receiving the token
+   * @default 'g-recaptcha-response'
+   */
+  inputName?: string;
+
+  /**
+   * Handle the submission with the token instead of submitting the form.
+   * `event.currentTarget` is cleared once the event has been dispatched;
+   * read the form from `event.target`.
+   */
+  onSubmit?: (
+    event: FormEvent<HTMLFormElement>,
+    token: string
+  ) => void | Promise<void>;
+
+  /**
+   * The form's content, or a function rendering it from the submission state
+   */
+  children?: ReactNode | ((state: ReCaptchaFormState) => ReactNode);
+}
+
+const ReCaptchaFormContext = createContext<ReCaptchaFormState | null>(null);
+
+/**
+ * A `<form>` that runs an invisible reCAPTCHA when submitted.
+ *
+ * The submit is held back until the widget returns a token. Without
+ * `onSubmit`, the token is written to a hidden input and the form is
+ * submitted again, so `action` (a URL or a Server Action) receives it with
+ * the other fields. With `onSubmit`, the handler gets the token instead. The
+ * widget is reset after each submission.
+ *
+ * Before hydration the form submits natively without a token, so the server
+ * must treat a missing token as a failed check.
+ *
+ * @example
+ * ```tsx
+ * // With a Server Action
+ * <ReCaptchaForm siteKey="your-site-key" action={sendMessage}>
+ *   {({ isSubmitting, error }) => (
+ *     <>
+ *       <textarea name="message" required />
+ *       {error && <p role="alert">{error.message}</p>}
+ *       <button disabled={isSubmitting}>Send</button>
+ *     </>
+ *   )}
+ * </ReCaptchaForm>
+ *
+ * // With a handler
+ * <ReCaptchaForm
+ *   siteKey="your-site-key"
+ *   onSubmit={async (event, token) => {
+ *     const form = event.target as HTMLFormElement;
+ *     await fetch('/api/contact', { method: 'POST', body: new FormData(form) });
+ *   }}
+ * >
+ *   …
+ * </ReCaptchaForm>
+ * ```
+ */
+export const ReCaptchaForm = ({
+  siteKey,
+  recaptcha,
+  inputName = 'g-recaptcha-response',
+  onSubmit,
+  children,
+  ...formProps
+}: ReCaptchaFormProps) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const recaptchaRef = useRef<ReCaptchaInstance>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Set while the form is submitted again with the token, so its submit
+  // event goes through untouched
+  const resubmittingRef = useRef(false);
+
+  // Ignores submits made while one is waiting for its token
+  const submittingRef = useRef(false);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    if (resubmittingRef.current) {
+      resubmittingRef.current = false;
+      return;
+    }
+
+    event.preventDefault();
+    if (submittingRef.current) return;
+
+    const form = event.currentTarget;
+    const submitter = (event.nativeEvent as SubmitEvent).submitter;
+
+    submittingRef.current = true;
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      // A token left over from an earlier submission may already be spent
+      if (inputRef.current) {
+        inputRef.current.value = '';
+      }
+      if (recaptchaRef.current?.token) {
+        recaptchaRef.current.reset();
+      }
+
+      const token = await recaptchaRef.current?.executeAsync();
+      if (!token) return;
+
+      // Uncontrolled, so the value is in the DOM before the form submits
+      if (inputRef.current) {
+        inputRef.current.value = token;
+      }
+
+      if (onSubmit) {
+        await onSubmit(event, token);
+      } else {
+        // Submit again through the browser (or React for Server Actions),
+        // keeping the button that was used and its `formAction`
+        resubmittingRef.current = true;
+        if (typeof form.requestSubmit === 'function') {
+          form.requestSubmit(submitter ?? undefined);
+        } else if (submitter) {
+          submitter.click();
+        } else {
+          resubmittingRef.current = false;
+          form.submit();
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      resubmittingRef.current = false;
+      submittingRef.current = false;
+      setIsSubmitting(false);
+
+      // A token can only be verified once
+      if (inputRef.current) {
+        inputRef.current.value = '';
+      }
+      recaptchaRef.current?.reset();
+    }
+  };
+
+  const state = useMemo<ReCaptchaFormState>(
+    () => ({ isSubmitting, error, clearError }),
+    [isSubmitting, error, clearError]
+  );
+
+  return (
+    <ReCaptchaFormContext.Provider value={state}>
+      <form {...formProps} onSubmit={handleSubmit}>
+        {typeof children === 'function' ? children(state) : children}
+        <input type="hidden" name={inputName} ref={inputRef} />
+        <ReCaptcha
+          {...recaptcha}
+          ref={recaptchaRef}
+          siteKey={siteKey}
+          size="invisible"
+        />
+      </form>
+    </ReCaptchaFormContext.Provider>
+  );
+};
+
+/**
+ * Read the submission state of the enclosing `ReCaptchaForm`, e.g. from a
+ * submit button component
+ * @returns The form's state, or null outside a `ReCaptchaForm`
+ */
+export const useReCaptchaForm = (): ReCaptchaFormState | null => {
+  return useContext(ReCaptchaFormContext);
+};
+
+export default ReCaptchaForm;
@@ -0,0 +1,249 @@
+'use client';
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode
+} from 'react';
+import { useReCaptchaConsentState } from './consent';
+import { ReCaptchaError, toReCaptchaError } from './errors';
+import {
+  ReCaptchaConsent,
+  ReCaptchaProps,
+  ReCaptchaScriptOptions
+} from './types';
+import {
+  getScriptLoadingState,
+  loadReCaptchaScript,
+  type ScriptLoadingState
+} from './utils';
+
+/**
+ * Widget options a provider can supply as defaults
+ */
+export type ReCaptchaDefaults = Partial<
+  Pick<
+    ReCaptchaProps,
+    | 'siteKey'
+    | 'theme'
+    | 'size'
+    | 'tabIndex'
+    | 'badge'
+    | 'hideBadge'
+    | 'nonce'
+    | 'loadStrategy'
+  >
+>;
+
+/**
+ * Value exposed by `ReCaptchaProvider` through context
+ */
+export interface ReCaptchaContextValue extends ReCaptchaDefaults {
+  /**
+   * Language the script is loaded with
+   */
+  language?: string;
+
+  /**
+   * Current state of the script loader
+   */
+  status: ScriptLoadingState;
+
+  /**
+   * Error raised while loading the script
+   */
+  error: ReCaptchaError | null;
+
+  /**
+   * Load the script with the provider's configuration
+   * @param options A widget's own language, nonce and script options, which
+   * override the provider's. As with `loadReCaptchaScript`, an explicitly
+   * undefined `language` keeps whichever script is loaded.
+   * @returns A promise that resolves when the script is ready
+   */
+  load: (options?: ReCaptchaScriptOptions) => Promise<void>;
+
+  /**
+   * Whether Google's script may be loaded. Widgets below the provider don't
+   * call `load` until it is.
+   */
+  hasConsent: boolean;
+
+  /**
+   * Grant consent for every widget below the provider
+   */
+  grantConsent: () => void;
+}
+
+/**
+ * Props for the ReCaptchaProvider component
+ */
+export interface ReCaptchaProviderProps extends ReCaptchaDefaults {
+  /**
+   * The language code the script is loaded with
+   * If unspecified, the user's browser language will be used
+   */
+  language?: string;
+
+  /**
+   * Where and how the reCAPTCHA script is loaded (host, URL, query params)
+   */
+  scriptOptions?: Omit<ReCaptchaScriptOptions, 'language' | 'nonce'>;
+
+  /**
+   * Hold Google's script back until consent is given, for every widget
+   * below the provider
+   */
+  consent?: ReCaptchaConsent;
+
+  /**
+   * Called when the user allows reCAPTCHA from a widget's placeholder
+   */
+  onConsentGranted?: () => void;
+
+  children?: ReactNode;
+}
+
+const ReCaptchaContext = createContext<ReCaptchaContextValue | null>(null);
+
+/**
+ * Provide app-wide reCAPTCHA configuration.
+ *
+ * Owns the script loader configuration and exposes its status. `ReCaptcha`
+ * components and `useReCaptcha` hooks below it use the provider's values as
+ * defaults, which their own props override.
+ *
+ * @example
+ * ```tsx
+ * // app/providers.tsx
+ * 'use client';
+ *
+ * <ReCaptchaProvider
+ *   siteKey={process.env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY!}
+ *   language="fr"
+ *   hideBadge
+ * >
+ *   {children}
+ * </ReCaptchaProvider>
+ *
+ * // Anywhere below, no siteKey needed
+ * <ReCaptcha onVerify={handleVerify} />
+ * ```
+ */
+export const ReCaptchaProvider = ({
+  siteKey,
+  theme,
+  size,
+  tabIndex,
+  badge,
+  hideBadge,
+  nonce,
+  loadStrategy,
+  language,
+  scriptOptions,
+  consent,
+  onConsentGranted,
+  children
+}: ReCaptchaProviderProps) => {
+  const { hasConsent, grantConsent } = useReCaptchaConsentState(
+    consent,
+    onConsentGranted
+  );
+
+  const [status, setStatus] = useState<ScriptLoadingState>(getScriptLoadingState);
+  const [error, setError] = useState<ReCaptchaError | null>(null);
+
+  // Share one promise per configuration between every widget asking to load
+  const loadPromiseRef = useRef<{
+    key: string;
+    promise: Promise<void>;
+  } | null>(null);
+
+  // Read at load time so inline objects don't recreate `load`
+  const scriptOptionsRef = useRef(scriptOptions);
+  scriptOptionsRef.current = scriptOptions;
+
+  const load = useCallback((options?: ReCaptchaScriptOptions) => {
+    const loadOptions: ReCaptchaScriptOptions = {
+      ...scriptOptionsRef.current,
+      language,
+      nonce,
+      ...options
+    };
+
+    // A new language reloads the script for every widget below
+    const key = JSON.stringify(loadOptions);
+    if (!loadPromiseRef.current || loadPromiseRef.current.key !== key) {
+      setStatus('loading');
+      const promise = loadReCaptchaScript(loadOptions)
+        .then(() => {
+          if (loadPromiseRef.current?.promise !== promise) return;
+          setStatus('loaded');
+          setError(null);
+        })
+        .catch((err) => {
+          const loadError = toReCaptchaError(err, 'script-load-failed');
+          if (loadPromiseRef.current?.promise === promise) {
+            loadPromiseRef.current = null;
+            setStatus('error');
+            setError(loadError);
+          }
+          throw loadError;
+        });
+      loadPromiseRef.current = { key, promise };
+    }
+    return loadPromiseRef.current.promise;
+  }, [language, nonce]);
+
+  const value = useMemo<ReCaptchaContextValue>(() => ({
+    siteKey,
+    theme,
+    size,
+    tabIndex,
+    badge,
+    hideBadge,
+    nonce,
+    loadStrategy,
+    language,
+    status,
+    error,
+    load,
+    hasConsent,
+    grantConsent
+  }), [
+    siteKey,
+    theme,
+    size,
+    tabIndex,
+    badge,
+    hideBadge,
+    nonce,
+    loadStrategy,
+    language,
+    status,
+    error,
+    load,
+    hasConsent,
+    grantConsent
+  ]);
+
+  return (
+    <ReCaptchaContext.Provider value={value}>
+      {children}
+    </ReCaptchaContext.Provider>
+  );
+};
+
+/**
+ * Read the nearest `ReCaptchaProvider`
+ * @returns The provider's value, or null when rendered outside a provider
+ */
+export const useReCaptchaContext = (): ReCaptchaContextValue | null => {
+  return useContext(ReCaptchaContext);
+};
+
+export default ReCaptchaProvider;
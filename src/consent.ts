@@ -0,0 +1,75 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ReCaptchaConsent } from './types';
+
+/**
+ * Consent resolved from a `consent` prop or provider option
+ */
+export interface ReCaptchaConsentState {
+  /**
+   * Whether Google's script may be loaded
+   */
+  hasConsent: boolean;
+
+  /**
+   * Record consent given from the placeholder's "allow" action and resume
+   * loading
+   */
+  grantConsent: () => void;
+}
+
+/**
+ * Track consent given as a boolean or through a consent manager adapter.
+ * `grantConsent` passes the choice on to the adapter and lets loading resume
+ * even while a boolean `consent` is still `false`.
+ * @param consent The `consent` prop; `undefined` means no gating
+ * @param onConsentGranted Called when `grantConsent` runs
+ * @returns Whether consent is given and how to grant it
+ */
+export const useReCaptchaConsentState = (
+  consent: ReCaptchaConsent | undefined,
+  onConsentGranted?: () => void
+): ReCaptchaConsentState => {
+  const adapter = typeof consent === 'object' ? consent : null;
+
+  // The adapter reads cookies or storage, so it is only asked after
+  // hydration; the server and the first client render both start without
+  // consent
+  const [adapterConsent, setAdapterConsent] = useState(false);
+  const [granted, setGranted] = useState(false);
+
+  // Follow the consent manager, e.g. when the cookie banner is accepted or
+  // consent is revoked
+  useEffect(() => {
+    if (!adapter) return;
+    setAdapterConsent(adapter.hasConsent());
+    return adapter.subscribe((value) => {
+      setAdapterConsent(value);
+      if (!value) {
+        setGranted(false);
+      }
+    });
+  }, [adapter]);
+
+  // A boolean `consent` going back to `false` revokes it as well
+  useEffect(() => {
+    if (consent === false) {
+      setGranted(false);
+    }
+  }, [consent]);
+
+  const onConsentGrantedRef = useRef(onConsentGranted);
+  onConsentGrantedRef.current = onConsentGranted;
+
+  const grantConsent = useCallback(() => {
+    adapter?.grantConsent?.();
+    setGranted(true);
+    onConsentGrantedRef.current?.();
+  }, [adapter]);
+
+  return {
+    hasConsent: granted || (adapter ? adapterConsent : consent !== false),
+    grantConsent
+  };
+};
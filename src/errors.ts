@@ -0,0 +1,83 @@
+/**
+ * Machine-readable codes carried by `ReCaptchaError`
+ *
+ * - `script-load-failed`: Google's script could not be loaded
+ * - `ready-timeout`: `grecaptcha.ready` never called back
+ * - `not-ready`: the widget was used before it was rendered
+ * - `expired`: the token expired before it was used
+ * - `execute-timeout`: `executeAsync` received no token in time
+ * - `aborted`: `executeAsync` was cancelled through its `signal`
+ * - `unmounted`: the component unmounted while a challenge was pending
+ * - `widget-error`: Google's widget reported or threw an error
+ * - `render-failed`: `grecaptcha.render` threw
+ * - `consent-required`: the script was needed before consent was given
+ */
+export type ReCaptchaErrorCode =
+  | 'script-load-failed'
+  | 'ready-timeout'
+  | 'not-ready'
+  | 'expired'
+  | 'execute-timeout'
+  | 'aborted'
+  | 'unmounted'
+  | 'widget-error'
+  | 'render-failed'
+  | 'consent-required';
+
+/**
+ * Error raised by the reCAPTCHA loader, hook and component
+ *
+ * @example
+ * ```ts
+ * try {
+ *   const token = await recaptchaRef.current?.executeAsync();
+ * } catch (error) {
+ *   if (error instanceof ReCaptchaError && error.code === 'expired') {
+ *     // ask the user to try again
+ *   }
+ * }
+ * ```
+ */
+export class ReCaptchaError extends Error {
+  /**
+   * Machine-readable error code
+   */
+  readonly code: ReCaptchaErrorCode;
+
+  constructor(
+    code: ReCaptchaErrorCode,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'ReCaptchaError';
+    this.code = code;
+  }
+}
+
+/**
+ * Check whether a value is a `ReCaptchaError`, including instances created
+ * by another copy of the library (e.g. its CommonJS and ESM builds)
+ * @param value The value to check
+ * @returns True if the value is a `ReCaptchaError`
+ */
+export const isReCaptchaError = (value: unknown): value is ReCaptchaError =>
+  value instanceof ReCaptchaError ||
+  (value instanceof Error &&
+    value.name === 'ReCaptchaError' &&
+    typeof (value as Partial<ReCaptchaError>).code === 'string');
+
+/**
+ * Wrap an unknown thrown value in a `ReCaptchaError`
+ * @param error The thrown value
+ * @param code Code to use if the value is not already a `ReCaptchaError`
+ * @returns The original `ReCaptchaError` or a new one with the value as cause
+ */
+export const toReCaptchaError = (
+  error: unknown,
+  code: ReCaptchaErrorCode
+): ReCaptchaError => {
+  if (isReCaptchaError(error)) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new ReCaptchaError(code, message, { cause: error });
+};
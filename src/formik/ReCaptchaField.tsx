@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useField } from 'formik';
+import ReCaptcha from '../ReCaptcha';
+import { useReCaptchaContext } from '../ReCaptchaProvider';
+import { ReCaptchaError, toReCaptchaError } from '../errors';
+import { ReCaptchaInstance, ReCaptchaProps } from '../types';
+import { useExecuteOnSubmit } from '../useExecuteOnSubmit';
+
+/**
+ * Props for the ReCaptchaField component
+ */
+export interface ReCaptchaFieldProps extends Omit<ReCaptchaProps, 'inputName'> {
+  /**
+   * Name of the Formik field holding the token
+   */
+  name: string;
+
+  /**
+   * Message of the built-in required validation
+   * @default 'Please complete the reCAPTCHA.'
+   */
+  requiredMessage?: string;
+}
+
+/**
+ * A `ReCaptcha` whose token is a Formik field.
+ *
+ * The token is required by default and cleared when it expires. Resetting
+ * the form resets the widget. For invisible widgets, submitting the
+ * surrounding `<Form>` runs the challenge first and submits again with the
+ * token, so `onSubmit` always receives one.
+ *
+ * @example
+ * ```tsx
+ * <Formik initialValues={{ email: '', captcha: '' }} onSubmit={send}>
+ *   <Form>
+ *     <Field name="email" type="email" />
+ *     <ReCaptchaField name="captcha" siteKey="your-site-key" />
+ *     <ErrorMessage name="captcha" />
+ *     <button type="submit">Send</button>
+ *   </Form>
+ * </Formik>
+ * ```
+ */
+export const ReCaptchaField = ({
+  name,
+  requiredMessage = 'Please complete the reCAPTCHA.',
+  onVerify,
+  onExpired,
+  ...props
+}: ReCaptchaFieldProps) => {
+  const [field, , helpers] = useField<string>({
+    name,
+    validate: (value: string) => (value ? undefined : requiredMessage)
+  });
+
+  const context = useReCaptchaContext();
+  const recaptchaRef = useRef<ReCaptchaInstance>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+
+  // `resetForm()` puts the field back to empty; drop the widget's token too.
+  // Only a cleared value counts: the token and the field aren't always
+  // updated in the same render.
+  const previousValueRef = useRef(field.value);
+  useEffect(() => {
+    const cleared = !!previousValueRef.current && !field.value;
+    previousValueRef.current = field.value;
+    if (cleared && recaptchaRef.current?.token) {
+      recaptchaRef.current.reset();
+    }
+  }, [field.value]);
+
+  // Formik reads values from its last render, so the resubmit waits for the
+  // render that carries the token. `onVerify` may already have stored it,
+  // hence the request counter.
+  const resubmitRef = useRef<(() => void) | null>(null);
+  const [resubmitRequest, setResubmitRequest] = useState(0);
+  useEffect(() => {
+    if (field.value && resubmitRef.current) {
+      const resubmit = resubmitRef.current;
+      resubmitRef.current = null;
+      resubmit();
+    }
+  }, [field.value, resubmitRequest]);
+
+  useExecuteOnSubmit(wrapperRef, {
+    enabled: (props.size ?? context?.size) === 'invisible',
+    getToken: () => field.value || '',
+    clearToken: () => {
+      helpers.setValue('', false);
+      recaptchaRef.current?.reset();
+    },
+    execute: () =>
+      recaptchaRef.current?.executeAsync() ??
+      Promise.reject(new ReCaptchaError('not-ready', 'reCAPTCHA not ready.')),
+    onToken: (token, resubmit) => {
+      resubmitRef.current = resubmit;
+      helpers.setValue(token);
+      setResubmitRequest((request) => request + 1);
+    },
+    onError: (err) => {
+      helpers.setTouched(true, false);
+      helpers.setError(toReCaptchaError(err, 'widget-error').message);
+    }
+  });
+
+  return (
+    <div ref={wrapperRef} data-recaptcha-field={name}>
+      <ReCaptcha
+        {...props}
+        ref={recaptchaRef}
+        inputName={name}
+        onVerify={(token) => {
+          helpers.setValue(token);
+          onVerify?.(token);
+        }}
+        onExpired={() => {
+          helpers.setValue('');
+          onExpired?.();
+        }}
+      />
+    </div>
+  );
+};
+
+export default ReCaptchaField;
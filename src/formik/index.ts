@@ -0,0 +1,12 @@
+/**
+ * React reCAPTCHA v2 - Formik integration: a widget whose token is a form
+ * field validated like any other.
+ *
+ * @packageDocumentation
+ */
+
+// Export the field component
+export { ReCaptchaField } from "./ReCaptchaField";
+
+// Export all types
+export type { ReCaptchaFieldProps } from "./ReCaptchaField";
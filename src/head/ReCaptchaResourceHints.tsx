@@ -0,0 +1,69 @@
+import React from 'react';
+import { ReCaptchaScriptOptions, ReCaptchaScriptProps } from '../types';
+import { buildReCaptchaScriptUrl, getReCaptchaResourceHints } from '../utils';
+
+/**
+ * Props for the ReCaptchaResourceHints component: the language and script
+ * options the widgets load the script with
+ */
+export type ReCaptchaResourceHintsProps = Omit<
+  ReCaptchaScriptOptions,
+  'trustedTypesPolicyName' | 'retry'
+>;
+
+/**
+ * Get the attributes of a `<script>` tag loading Google's script with the
+ * URL and `hl` the loader will request. The loader adopts the rendered tag
+ * instead of injecting a duplicate.
+ * @param options Language and script options, as passed to the loader
+ * @returns Props to spread on a `<script>` element
+ */
+export const getReCaptchaScriptProps = (
+  options?: string | ReCaptchaScriptOptions
+): ReCaptchaScriptProps => {
+  const scriptOptions: ReCaptchaScriptOptions =
+    typeof options === 'string' ? { language: options } : options ?? {};
+
+  return {
+    src: buildReCaptchaScriptUrl(scriptOptions),
+    async: true,
+    defer: true,
+    ...(scriptOptions.nonce ? { nonce: scriptOptions.nonce } : {})
+  };
+};
+
+/**
+ * Render `preconnect`/`dns-prefetch` hints for Google's script and gstatic
+ * origins and a `preload` of the script. Safe to render from Server
+ * Components; React 19 hoists the links into `<head>`.
+ *
+ * @example
+ * ```tsx
+ * // app/layout.tsx
+ * import { ReCaptchaResourceHints } from 'react-recaptcha-v2/head';
+ *
+ * <html>
+ *   <body>
+ *     <ReCaptchaResourceHints language="fr" />
+ *     {children}
+ *   </body>
+ * </html>
+ * ```
+ */
+export const ReCaptchaResourceHints = (props: ReCaptchaResourceHintsProps) => {
+  return (
+    <>
+      {getReCaptchaResourceHints(props).map((hint) => (
+        <link
+          key={`${hint.rel} ${hint.href}`}
+          rel={hint.rel}
+          href={hint.href}
+          as={hint.as}
+          nonce={hint.nonce}
+        />
+      ))}
+    </>
+  );
+};
+
+export default ReCaptchaResourceHints;
@@ -0,0 +1,22 @@
+/**
+ * React reCAPTCHA v2 - resource hints and script tags for server-rendered
+ * `<head>` content. Uses no hooks or context, so it is safe to import from
+ * Server Components.
+ *
+ * @packageDocumentation
+ */
+
+// Export the resource hints
+export {
+  ReCaptchaResourceHints,
+  getReCaptchaScriptProps,
+} from "./ReCaptchaResourceHints";
+export { getReCaptchaResourceHints } from "../utils";
+
+// Export all types
+export type { ReCaptchaResourceHintsProps } from "./ReCaptchaResourceHints";
+export type {
+  ReCaptchaResourceHint,
+  ReCaptchaScriptOptions,
+  ReCaptchaScriptProps,
+} from "../types";
@@ -12,15 +12,58 @@ export { default } from "./ReCaptcha";
 // Export the hook
 export { useReCaptcha } from "./useReCaptcha";
 
+// Export the form wrapper
+export { ReCaptchaForm, useReCaptchaForm } from "./ReCaptchaForm";
+
+// Export the consent placeholder
+export { ReCaptchaConsentPlaceholder } from "./ReCaptchaConsentPlaceholder";
+
+// Export the provider
+export { ReCaptchaProvider, useReCaptchaContext } from "./ReCaptchaProvider";
+
+// Export the resource hints for server-rendered <head> content
+export {
+  ReCaptchaResourceHints,
+  getReCaptchaScriptProps,
+} from "./head/ReCaptchaResourceHints";
+
+// Export the error class
+export { ReCaptchaError, isReCaptchaError } from "./errors";
+
+// Export the widget status helpers
+export {
+  RECAPTCHA_STATUS_TRANSITIONS,
+  canTransitionReCaptchaStatus,
+} from "./status";
+
 // Export utility functions that might be useful for consumers
 export {
   isReCaptchaAvailable,
   loadReCaptchaScript,
   onReCaptchaLoad,
   generateUniqueId,
+  getScriptLoadingState,
+  buildReCaptchaScriptUrl,
+  getReCaptchaResourceHints,
+  preloadReCaptcha,
+  retryReCaptchaLoad,
+  RECAPTCHA_SCRIPT_URL,
+  RECAPTCHA_TOKEN_LIFETIME_MS,
 } from "./utils";
 
 // Export all types
+export type { ReCaptchaErrorCode } from "./errors";
+export type { ReCaptchaStatus } from "./status";
+export type { UseReCaptchaOptions, UseReCaptchaReturn } from "./useReCaptcha";
+export type {
+  ReCaptchaContextValue,
+  ReCaptchaDefaults,
+  ReCaptchaProviderProps,
+} from "./ReCaptchaProvider";
+export type { ReCaptchaConsentPlaceholderProps } from "./ReCaptchaConsentPlaceholder";
+export type { ReCaptchaFormProps, ReCaptchaFormState } from "./ReCaptchaForm";
+export type { ReCaptchaResourceHintsProps } from "./head/ReCaptchaResourceHints";
+export type { ScriptLoadingState } from "./utils";
 export type {
   ReCaptchaTheme,
   ReCaptchaSize,
@@ -31,5 +74,18 @@ export type {
   ReCaptchaOnLoadCallback,
   ReCaptchaProps,
   ReCaptchaInstance,
+  ReCaptchaConsent,
+  ReCaptchaConsentAdapter,
+  ReCaptchaExecuteConcurrency,
+  ReCaptchaExecuteOptions,
+  ReCaptchaLoadStrategy,
+  ReCaptchaRenderParameters,
+  ReCaptchaOnExpiringSoonCallback,
+  ReCaptchaOnStatusChangeCallback,
+  ReCaptchaResourceHint,
+  ReCaptchaRetryOptions,
+  ReCaptchaScriptHost,
+  ReCaptchaScriptOptions,
+  ReCaptchaScriptProps,
   WindowWithReCaptcha,
 } from "./types";
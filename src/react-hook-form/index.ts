@@ -0,0 +1,15 @@
+/**
+ * React reCAPTCHA v2 - React Hook Form integration: register the token as
+ * a form field validated like any other.
+ *
+ * @packageDocumentation
+ */
+
+// Export the field hook
+export { useReCaptchaField } from "./useReCaptchaField";
+
+// Export all types
+export type {
+  UseReCaptchaFieldOptions,
+  UseReCaptchaFieldReturn,
+} from "./useReCaptchaField";
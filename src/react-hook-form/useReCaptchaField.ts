@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import {
+  useController,
+  useFormContext,
+  type FieldPath,
+  type FieldPathValue,
+  type FieldValues,
+  type UseControllerProps,
+  type UseControllerReturn,
+  type UseFormReturn
+} from 'react-hook-form';
+import { useReCaptchaContext } from '../ReCaptchaProvider';
+import { toReCaptchaError } from '../errors';
+import { useExecuteOnSubmit } from '../useExecuteOnSubmit';
+import {
+  useReCaptcha,
+  type UseReCaptchaOptions,
+  type UseReCaptchaReturn
+} from '../useReCaptcha';
+
+/**
+ * Options for useReCaptchaField: the field to register plus the hook's
+ * widget options
+ */
+export interface UseReCaptchaFieldOptions<
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>
+> extends UseReCaptchaOptions,
+    Pick<
+      UseControllerProps<TFieldValues, TName>,
+      'control' | 'name' | 'rules' | 'shouldUnregister'
+    > {
+  /**
+   * Message of the built-in `required` rule
+   * @default 'Please complete the reCAPTCHA.'
+   */
+  requiredMessage?: string;
+}
+
+/**
+ * What useReCaptchaField returns: the hook's values plus the field's
+ */
+export interface UseReCaptchaFieldReturn<
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>
+> extends UseReCaptchaReturn {
+  /**
+   * The registered field, as returned by `useController`
+   */
+  field: UseControllerReturn<TFieldValues, TName>['field'];
+
+  /**
+   * The field's validation state, e.g. `fieldState.error`
+   */
+  fieldState: UseControllerReturn<TFieldValues, TName>['fieldState'];
+}
+
+/**
+ * Register a reCAPTCHA token as a React Hook Form field.
+ *
+ * The token is required by default and cleared when it expires. Resetting
+ * the form resets the widget. For invisible widgets, submitting the
+ * surrounding `<form>` runs the challenge first and submits again with the
+ * token, so `handleSubmit` always receives one.
+ *
+ * @example
+ * ```tsx
+ * const { control, handleSubmit } = useForm<{ email: string; captcha: string }>();
+ * const { containerRef, fieldState } = useReCaptchaField({
+ *   control,
+ *   name: 'captcha',
+ *   siteKey: 'your-site-key'
+ * });
+ *
+ * <form onSubmit={handleSubmit(onValid)}>
+ *   <div ref={containerRef} />
+ *   {fieldState.error && <p>{fieldState.error.message}</p>}
+ *   <button type="submit">Send</button>
+ * </form>
+ * ```
+ */
+export const useReCaptchaField = <
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>
+>({
+  control,
+  name,
+  rules,
+  shouldUnregister,
+  requiredMessage = 'Please complete the reCAPTCHA.',
+  ...options
+}: UseReCaptchaFieldOptions<TFieldValues, TName>): UseReCaptchaFieldReturn<
+  TFieldValues,
+  TName
+> => {
+  const { field, fieldState } = useController<TFieldValues, TName>({
+    control,
+    name,
+    shouldUnregister,
+    rules: { required: requiredMessage, ...rules },
+    defaultValue: '' as FieldPathValue<TFieldValues, TName>
+  });
+
+  const context = useReCaptchaContext();
+
+  // `control` may come from a FormProvider instead of the options
+  const formContext = useFormContext<TFieldValues>() as
+    | UseFormReturn<TFieldValues>
+    | null;
+  const setError = control?.setError ?? formContext?.setError;
+
+  const recaptcha = useReCaptcha({
+    ...options,
+    onVerify: (token) => {
+      field.onChange(token);
+      options.onVerify?.(token);
+    },
+    onExpired: () => {
+      field.onChange('');
+      options.onExpired?.();
+    }
+  });
+
+  // `reset()` puts the field back to empty; drop the widget's token too.
+  // Only a cleared value counts: the token and the field aren't always
+  // updated in the same render.
+  const { token, reset } = recaptcha;
+  const previousValueRef = useRef(field.value);
+  useEffect(() => {
+    const cleared = !!previousValueRef.current && !field.value;
+    previousValueRef.current = field.value;
+    if (cleared && token) {
+      reset();
+    }
+  }, [field.value, token, reset]);
+
+  useExecuteOnSubmit(recaptcha.containerRef, {
+    enabled: (options.size ?? context?.size) === 'invisible',
+    getToken: () => field.value || '',
+    clearToken: () => {
+      field.onChange('');
+      reset();
+    },
+    execute: () => recaptcha.executeAsync(),
+    onToken: (token, resubmit) => {
+      // Stored synchronously, so the resubmit already validates with it
+      field.onChange(token);
+      resubmit();
+    },
+    onError: (err) => {
+      setError?.(name, {
+        type: 'recaptcha',
+        message: toReCaptchaError(err, 'widget-error').message
+      });
+    }
+  });
+
+  return { ...recaptcha, field, fieldState };
+};
+
+export default useReCaptchaField;
@@ -0,0 +1,144 @@
+import { ReCaptchaVerifiedResult } from "../types";
+import {
+  ReCaptchaErrorBody,
+  readReCaptchaFormValue,
+  resolveReCaptchaOutcome,
+} from "./http";
+import { VerifyReCaptchaOptions } from "./verify";
+
+/**
+ * Options for verifying reCAPTCHA inside a Server Action
+ */
+export interface ReCaptchaActionOptions
+  extends Omit<VerifyReCaptchaOptions, "remoteip"> {
+  /**
+   * FormData field carrying the token
+   * @default 'g-recaptcha-response'
+   */
+  formField?: string;
+
+  /**
+   * Resolve the end user's IP address to forward to Google as `remoteip`,
+   * e.g. from `headers()` in `next/headers`
+   */
+  getRemoteIp?: () => string | undefined | Promise<string | undefined>;
+}
+
+/**
+ * Outcome of verifying a FormData submission. Serializable, so it can be
+ * returned from a Server Action and used as `useActionState` state.
+ */
+export type ReCaptchaFormDataResult =
+  | { success: true; result: ReCaptchaVerifiedResult }
+  | ReCaptchaErrorBody;
+
+/**
+ * Server Action wrapped by `withReCaptchaAction`. Receives the verified
+ * result as a third argument. `prevState` is a reCAPTCHA error body when the
+ * previous submission failed verification; narrow it with
+ * `isReCaptchaActionError`.
+ */
+export type ReCaptchaAction<S> = (
+  prevState: S | ReCaptchaErrorBody,
+  formData: FormData,
+  recaptcha: ReCaptchaVerifiedResult
+) => S | Promise<S>;
+
+/**
+ * Verify the reCAPTCHA token submitted with a form.
+ *
+ * Reads the token from the `g-recaptcha-response` field (or `formField`),
+ * which the `ReCaptcha` component fills in when rendered inside a `<form>`.
+ *
+ * @param formData The submitted form data
+ * @param options Siteverify, policy and field options
+ * @returns The verified result, or an error with a code and message
+ *
+ * @example
+ * ```ts
+ * 'use server';
+ * import { verifyReCaptchaFormData } from 'react-recaptcha-v2/server';
+ *
+ * export async function subscribe(formData: FormData) {
+ *   const recaptcha = await verifyReCaptchaFormData(formData, {
+ *     secret: process.env.RECAPTCHA_SECRET_KEY!,
+ *   });
+ *   if (!recaptcha.success) return { error: recaptcha.message };
+ *   // …business logic
+ * }
+ * ```
+ */
+export const verifyReCaptchaFormData = async (
+  formData: FormData,
+  options: ReCaptchaActionOptions
+): Promise<ReCaptchaFormDataResult> => {
+  const { formField = "g-recaptcha-response", getRemoteIp } = options;
+
+  const outcome = await resolveReCaptchaOutcome(
+    readReCaptchaFormValue(formData.getAll(formField)),
+    { ...options, remoteip: await getRemoteIp?.() }
+  );
+
+  return outcome.ok ? { success: true, result: outcome.result } : outcome.body;
+};
+
+/**
+ * Protect a Server Action used with `useActionState`/`useFormState`.
+ *
+ * The wrapped action only runs when the submitted token is valid. Otherwise
+ * the returned state is a `{ success: false, error, message }` object, which
+ * can be told apart from your own state with `isReCaptchaActionError`.
+ *
+ * @param action The Server Action to run once the token is verified
+ * @param options Siteverify, policy and field options
+ * @returns An action with the `(prevState, formData)` signature
+ *
+ * @example
+ * ```ts
+ * 'use server';
+ * import { withReCaptchaAction } from 'react-recaptcha-v2/server';
+ *
+ * export const subscribe = withReCaptchaAction<{ subscribed: boolean }>(
+ *   async (prevState, formData) => {
+ *     // …business logic
+ *     return { subscribed: true };
+ *   },
+ *   { secret: process.env.RECAPTCHA_SECRET_KEY! }
+ * );
+ * ```
+ */
+export const withReCaptchaAction = <S>(
+  action: ReCaptchaAction<S>,
+  options: ReCaptchaActionOptions
+) => {
+  return async (
+    prevState: S | ReCaptchaErrorBody,
+    formData: FormData
+  ): Promise<S | ReCaptchaErrorBody> => {
+    const verification = await verifyReCaptchaFormData(formData, options);
+
+    if (!verification.success) {
+      return verification;
+    }
+
+    return action(prevState, formData, verification.result);
+  };
+};
+
+/**
+ * Check whether an action state is a reCAPTCHA error from
+ * `withReCaptchaAction`
+ * @param state The state returned by the action
+ * @returns True if the action was rejected because of reCAPTCHA
+ */
+export const isReCaptchaActionError = (
+  state: unknown
+): state is ReCaptchaErrorBody => {
+  if (!state || typeof state !== "object") return false;
+  const candidate = state as Partial<ReCaptchaErrorBody>;
+  return (
+    candidate.success === false &&
+    typeof candidate.error === "string" &&
+    typeof candidate.message === "string"
+  );
+};
@@ -0,0 +1,129 @@
+import { ReCaptchaVerifiedResult } from "../types";
+import {
+  ReCaptchaRequestOptions,
+  ReCaptchaTokenSourceOptions,
+  readReCaptchaFormValue,
+  resolveReCaptchaOutcome,
+} from "./http";
+
+/**
+ * The parts of an Express/Connect request used by the middleware.
+ * `body` is whatever `express.json()`, `express.urlencoded()` or a
+ * multipart parser put there.
+ */
+export interface ReCaptchaNodeRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  ip?: string;
+  recaptcha?: ReCaptchaVerifiedResult;
+}
+
+/**
+ * The parts of a Node.js `ServerResponse` used by the middleware
+ */
+export interface ReCaptchaNodeResponse {
+  statusCode: number;
+  setHeader: (name: string, value: string) => unknown;
+  end: (chunk: string) => unknown;
+}
+
+/**
+ * Options for the Express/Connect middleware
+ */
+export interface ReCaptchaMiddlewareOptions
+  extends Omit<ReCaptchaRequestOptions, "getRemoteIp"> {
+  /**
+   * Resolve the end user's IP address to forward to Google as `remoteip`,
+   * e.g. `(req) => req.ip` in Express
+   */
+  getRemoteIp?: (request: ReCaptchaNodeRequest) => string | undefined;
+}
+
+/**
+ * Extract the reCAPTCHA token from a parsed Node.js request
+ * @param request The incoming request with its parsed body
+ * @param options Where to look for the token
+ * @returns The token, or null if none was found
+ */
+export const extractReCaptchaTokenFromNodeRequest = (
+  request: ReCaptchaNodeRequest,
+  {
+    header = "x-recaptcha-token",
+    jsonField = "recaptchaToken",
+    formField = "g-recaptcha-response",
+  }: ReCaptchaTokenSourceOptions = {}
+): string | null => {
+  if (header) {
+    const value = request.headers[header.toLowerCase()];
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first) return first;
+  }
+
+  if (!request.body || typeof request.body !== "object") return null;
+
+  // JSON and form bodies are both parsed into plain objects; a form field
+  // submitted twice is parsed into an array
+  const body = request.body as Record<string, unknown>;
+  for (const field of [jsonField, formField]) {
+    if (!field) continue;
+    const value = body[field];
+    const token = readReCaptchaFormValue(Array.isArray(value) ? value : [value]);
+    if (token) return token;
+  }
+
+  return null;
+};
+
+/**
+ * Express/Connect middleware that verifies the reCAPTCHA token.
+ *
+ * On success the verified result is stored on `req.recaptcha` and the next
+ * handler runs. Otherwise the request is answered with the same JSON error
+ * body and status codes as `withReCaptcha` (400, 403 or 502).
+ *
+ * @param options Siteverify, policy and token source options
+ * @returns A `(req, res, next)` middleware
+ *
+ * @example
+ * ```ts
+ * import express from 'express';
+ * import { reCaptchaMiddleware } from 'react-recaptcha-v2/server';
+ *
+ * const app = express();
+ * app.post(
+ *   '/contact',
+ *   express.json(),
+ *   reCaptchaMiddleware({
+ *     secret: process.env.RECAPTCHA_SECRET_KEY!,
+ *     getRemoteIp: (req) => req.ip,
+ *   }),
+ *   (req, res) => res.json({ hostname: req.recaptcha?.response.hostname })
+ * );
+ * ```
+ */
+export const reCaptchaMiddleware = (options: ReCaptchaMiddlewareOptions) => {
+  return (
+    req: ReCaptchaNodeRequest,
+    res: ReCaptchaNodeResponse,
+    next: (error?: unknown) => void
+  ): void => {
+    const token = extractReCaptchaTokenFromNodeRequest(req, options);
+
+    resolveReCaptchaOutcome(token, {
+      ...options,
+      remoteip: options.getRemoteIp?.(req),
+    })
+      .then((outcome) => {
+        if (!outcome.ok) {
+          res.statusCode = outcome.status;
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify(outcome.body));
+          return;
+        }
+
+        req.recaptcha = outcome.result;
+        next();
+      })
+      .catch(next);
+  };
+};
@@ -0,0 +1,259 @@
+import {
+  ReCaptchaRejectionReason,
+  ReCaptchaVerificationResult,
+  ReCaptchaVerifiedResult,
+} from "../types";
+import { verifyReCaptcha, VerifyReCaptchaOptions } from "./verify";
+
+/**
+ * Where to look for the token in an incoming request.
+ * Set a source to `false` to ignore it.
+ */
+export interface ReCaptchaTokenSourceOptions {
+  /**
+   * Request header carrying the token
+   * @default 'x-recaptcha-token'
+   */
+  header?: string | false;
+
+  /**
+   * Property of a JSON body carrying the token
+   * @default 'recaptchaToken'
+   */
+  jsonField?: string | false;
+
+  /**
+   * Field of a form body (urlencoded or multipart) carrying the token
+   * @default 'g-recaptcha-response'
+   */
+  formField?: string | false;
+}
+
+/**
+ * Options shared by the HTTP integrations: siteverify, policy and token source
+ */
+export interface ReCaptchaRequestOptions
+  extends Omit<VerifyReCaptchaOptions, "remoteip">,
+    ReCaptchaTokenSourceOptions {
+  /**
+   * Resolve the end user's IP address to forward to Google as `remoteip`
+   */
+  getRemoteIp?: (request: Request) => string | undefined;
+}
+
+/**
+ * Error codes returned in the JSON body when a request is rejected
+ * - `missing-token`: no token was found in the request (HTTP 400)
+ * - `siteverify-unavailable`: Google could not be reached (HTTP 502)
+ * - any `ReCaptchaRejectionReason`: the token was rejected (HTTP 403)
+ */
+export type ReCaptchaRequestErrorCode =
+  | ReCaptchaRejectionReason
+  | "missing-token"
+  | "siteverify-unavailable";
+
+/**
+ * JSON body returned when a request is rejected
+ */
+export interface ReCaptchaErrorBody {
+  success: false;
+  error: ReCaptchaRequestErrorCode;
+  message: string;
+}
+
+/**
+ * Outcome of verifying an incoming request: either the verified result or a
+ * ready-to-send error with its HTTP status
+ */
+export type ReCaptchaRequestOutcome =
+  | { ok: true; result: ReCaptchaVerifiedResult }
+  | { ok: false; status: 400 | 403 | 502; body: ReCaptchaErrorBody };
+
+/**
+ * Default user-facing messages for each error code
+ */
+const ERROR_MESSAGES: Record<ReCaptchaRequestErrorCode, string> = {
+  "missing-token": "reCAPTCHA token is required.",
+  "siteverify-unavailable":
+    "reCAPTCHA verification is temporarily unavailable.",
+  "siteverify-failed": "reCAPTCHA verification failed.",
+  "hostname-mismatch": "reCAPTCHA was solved on an unexpected site.",
+  "apk-package-name-mismatch": "reCAPTCHA was solved in an unexpected app.",
+  "challenge-timestamp-invalid": "reCAPTCHA verification failed.",
+  "token-too-old": "reCAPTCHA has expired. Please try again.",
+  replayed: "reCAPTCHA token has already been used.",
+};
+
+/**
+ * Build the JSON body for a rejected request
+ * @param error The error code
+ * @returns The error body with its default message
+ */
+export const createReCaptchaErrorBody = (
+  error: ReCaptchaRequestErrorCode
+): ReCaptchaErrorBody => ({
+  success: false,
+  error,
+  message: ERROR_MESSAGES[error],
+});
+
+/**
+ * Build a JSON `Response` for a rejected request
+ * @param outcome The failed outcome of `verifyReCaptchaRequest`
+ * @returns A response with the outcome's status and error body
+ */
+export const createReCaptchaErrorResponse = (
+  outcome: Extract<ReCaptchaRequestOutcome, { ok: false }>
+): Response => Response.json(outcome.body, { status: outcome.status });
+
+/**
+ * Read a string value from a parsed body
+ */
+const readString = (value: unknown): string | null =>
+  typeof value === "string" && value ? value : null;
+
+/**
+ * Read the token from a form field that may be submitted several times.
+ * Google's widget adds its own `g-recaptcha-response` textarea before the
+ * component's hidden input, and leaves it empty while a token is refreshed,
+ * so the last non-empty value wins.
+ * @param values The field's values, in document order
+ * @returns The token, or null if every value is empty
+ */
+export const readReCaptchaFormValue = (values: unknown[]): string | null =>
+  values.map(readString).filter((value) => value !== null).pop() ?? null;
+
+/**
+ * Extract the reCAPTCHA token from a Fetch API request.
+ *
+ * The header is checked first, then the body according to its content type.
+ * The body is read from a clone, so the request can still be consumed
+ * afterwards.
+ *
+ * @param request The incoming request
+ * @param options Where to look for the token
+ * @returns The token, or null if none was found
+ */
+export const extractReCaptchaToken = async (
+  request: Request,
+  {
+    header = "x-recaptcha-token",
+    jsonField = "recaptchaToken",
+    formField = "g-recaptcha-response",
+  }: ReCaptchaTokenSourceOptions = {}
+): Promise<string | null> => {
+  if (header) {
+    const value = readString(request.headers.get(header));
+    if (value) return value;
+  }
+
+  const contentType = request.headers.get("content-type") ?? "";
+
+  try {
+    if (jsonField && contentType.includes("application/json")) {
+      const body = (await request.clone().json()) as unknown;
+      if (body && typeof body === "object") {
+        return readString((body as Record<string, unknown>)[jsonField]);
+      }
+      return null;
+    }
+
+    if (
+      formField &&
+      (contentType.includes("application/x-www-form-urlencoded") ||
+        contentType.includes("multipart/form-data"))
+    ) {
+      const form = await request.clone().formData();
+      return readReCaptchaFormValue(form.getAll(formField));
+    }
+  } catch {
+    // A malformed body simply means there is no token to find
+    return null;
+  }
+
+  return null;
+};
+
+/**
+ * Verify an already extracted token and map each failure to the HTTP status
+ * and JSON body the framework integrations send back.
+ *
+ * @param token The extracted token, or null if none was found
+ * @param options Siteverify and policy options
+ * @returns The verified result or the error response to send
+ */
+export const resolveReCaptchaOutcome = async (
+  token: string | null,
+  options: VerifyReCaptchaOptions
+): Promise<ReCaptchaRequestOutcome> => {
+  if (!token) {
+    return {
+      ok: false,
+      status: 400,
+      body: createReCaptchaErrorBody("missing-token"),
+    };
+  }
+
+  let result: ReCaptchaVerificationResult;
+  try {
+    result = await verifyReCaptcha(token, options);
+  } catch {
+    return {
+      ok: false,
+      status: 502,
+      body: createReCaptchaErrorBody("siteverify-unavailable"),
+    };
+  }
+
+  if (!result.success) {
+    return {
+      ok: false,
+      status: 403,
+      body: createReCaptchaErrorBody(result.reason),
+    };
+  }
+
+  return { ok: true, result };
+};
+
+/**
+ * Extract and verify the token of an incoming Fetch API request.
+ *
+ * Works with any runtime built on the Fetch standard: Next.js route handlers,
+ * Remix/React Router actions, Hono, Cloudflare Workers, Deno, Bun.
+ *
+ * @param request The incoming request
+ * @param options Siteverify, policy and token source options
+ * @returns The verified result or the error response to send
+ *
+ * @example
+ * ```ts
+ * // Hono
+ * app.post('/contact', async (c) => {
+ *   const outcome = await verifyReCaptchaRequest(c.req.raw, options);
+ *   if (!outcome.ok) return createReCaptchaErrorResponse(outcome);
+ *   // …business logic
+ * });
+ * ```
+ */
+export const verifyReCaptchaRequest = async (
+  request: Request,
+  options: ReCaptchaRequestOptions
+): Promise<ReCaptchaRequestOutcome> => {
+  const token = await extractReCaptchaToken(request, options);
+
+  return resolveReCaptchaOutcome(token, {
+    ...options,
+    remoteip: options.getRemoteIp?.(request),
+  });
+};
+
+/**
+ * Create a reusable verifier for Fetch API requests
+ * @param options Siteverify, policy and token source options
+ * @returns A function verifying a request with the given options
+ */
+export const createReCaptchaRequestVerifier =
+  (options: ReCaptchaRequestOptions) =>
+  (request: Request): Promise<ReCaptchaRequestOutcome> =>
+    verifyReCaptchaRequest(request, options);
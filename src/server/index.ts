@@ -0,0 +1,85 @@
+/**
+ * React reCAPTCHA v2 - server-side helpers for verifying tokens produced by
+ * the client components. Safe to import from Node.js and Edge runtimes.
+ *
+ * @packageDocumentation
+ */
+
+// Export token verification
+export {
+  verifyReCaptcha,
+  verifyReCaptchaToken,
+  RECAPTCHA_SITEVERIFY_URL,
+} from "./verify";
+
+// Export policy checks
+export { checkReCaptchaPolicy } from "./policy";
+
+// Export replay protection
+export {
+  createMemoryReplayStore,
+  hashReCaptchaToken,
+  DEFAULT_REPLAY_TTL_MS,
+} from "./replay";
+
+// Export Google's test keys
+export {
+  RECAPTCHA_TEST_SITE_KEY,
+  RECAPTCHA_TEST_SECRET_KEY,
+  isReCaptchaTestKey,
+} from "./testKeys";
+
+// Export request helpers and framework integrations
+export {
+  extractReCaptchaToken,
+  verifyReCaptchaRequest,
+  createReCaptchaRequestVerifier,
+  createReCaptchaErrorBody,
+  createReCaptchaErrorResponse,
+} from "./http";
+export { withReCaptcha } from "./next";
+export {
+  reCaptchaMiddleware,
+  extractReCaptchaTokenFromNodeRequest,
+} from "./express";
+export {
+  verifyReCaptchaFormData,
+  withReCaptchaAction,
+  isReCaptchaActionError,
+} from "./actions";
+
+// Export all types
+export type {
+  VerifyReCaptchaOptions,
+  VerifyReCaptchaTokenOptions,
+} from "./verify";
+export type {
+  ReCaptchaTokenSourceOptions,
+  ReCaptchaRequestOptions,
+  ReCaptchaRequestOutcome,
+  ReCaptchaRequestErrorCode,
+  ReCaptchaErrorBody,
+} from "./http";
+export type { ReCaptchaRouteHandler } from "./next";
+export type {
+  ReCaptchaMiddlewareOptions,
+  ReCaptchaNodeRequest,
+  ReCaptchaNodeResponse,
+} from "./express";
+export type {
+  ReCaptchaAction,
+  ReCaptchaActionOptions,
+  ReCaptchaFormDataResult,
+} from "./actions";
+export type {
+  MemoryReplayStoreOptions,
+  ReCaptchaReplayStore,
+} from "./replay";
+export type {
+  ReCaptchaSiteverifyErrorCode,
+  ReCaptchaSiteverifyResponse,
+  ReCaptchaRejectionReason,
+  ReCaptchaVerificationPolicy,
+  ReCaptchaVerificationResult,
+  ReCaptchaVerifiedResult,
+} from "../types";
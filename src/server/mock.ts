@@ -0,0 +1,322 @@
+/**
+ * React reCAPTCHA v2 - local stand-in for Google's siteverify endpoint, for
+ * tests and offline development.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  ReCaptchaSiteverifyErrorCode,
+  ReCaptchaSiteverifyResponse,
+} from "../types";
+
+/**
+ * Canned responses the mock can return
+ * - `success`: a valid token solved just now on `hostname`
+ * - any siteverify error code: `success: false` with that code
+ * - `stale`: a valid token whose `challenge_ts` is `staleAgeMs` in the past
+ * - `wrong-hostname`: a valid token solved on `wrongHostname`
+ */
+export type MockSiteverifyScenario =
+  | "success"
+  | ReCaptchaSiteverifyErrorCode
+  | "stale"
+  | "wrong-hostname";
+
+/**
+ * Form fields posted to the mock by the verifier
+ */
+export interface MockSiteverifyRequest {
+  secret: string | null;
+  response: string | null;
+  remoteip: string | null;
+}
+
+/**
+ * Options for the mock siteverify endpoint
+ */
+export interface MockSiteverifyOptions {
+  /**
+   * Response to return. A function can pick a scenario or return a full
+   * response per request. By default a token equal to a scenario name
+   * (e.g. `"timeout-or-duplicate"`) triggers that scenario and any other
+   * token succeeds.
+   */
+  scenario?:
+    | MockSiteverifyScenario
+    | ((
+        request: MockSiteverifyRequest
+      ) => MockSiteverifyScenario | ReCaptchaSiteverifyResponse);
+
+  /**
+   * Hostname reported for successful tokens
+   * @default 'localhost'
+   */
+  hostname?: string;
+
+  /**
+   * Hostname reported by the `wrong-hostname` scenario
+   * @default 'wrong-hostname.invalid'
+   */
+  wrongHostname?: string;
+
+  /**
+   * Age of the token reported by the `stale` scenario, in milliseconds
+   * @default 600000
+   */
+  staleAgeMs?: number;
+}
+
+/**
+ * A mock siteverify endpoint
+ */
+export interface MockSiteverify {
+  /**
+   * Fetch API handler answering siteverify requests
+   */
+  handler: (request: Request) => Promise<Response>;
+
+  /**
+   * `fetch` replacement routing every request to `handler`, for the
+   * `fetch` option of the verifier
+   */
+  fetch: typeof fetch;
+
+  /**
+   * Requests received so far, oldest first
+   */
+  requests: MockSiteverifyRequest[];
+
+  /**
+   * Change the scenario for subsequent requests
+   */
+  setScenario: (scenario: MockSiteverifyOptions["scenario"]) => void;
+}
+
+/**
+ * Options for the mock siteverify server
+ */
+export interface MockSiteverifyServerOptions extends MockSiteverifyOptions {
+  /**
+   * Port to listen on; 0 picks a free port
+   * @default 0
+   */
+  port?: number;
+
+  /**
+   * Interface to listen on
+   * @default '127.0.0.1'
+   */
+  listenHost?: string;
+}
+
+/**
+ * A mock siteverify endpoint listening on a local port
+ */
+export interface MockSiteverifyServer
+  extends Omit<MockSiteverify, "handler" | "fetch"> {
+  /**
+   * URL to pass as the verifier's `siteverifyUrl`
+   */
+  url: string;
+
+  /**
+   * Stop the server
+   */
+  close: () => Promise<void>;
+}
+
+/**
+ * Scenario names a token can select when no explicit scenario is configured
+ */
+const SCENARIOS: MockSiteverifyScenario[] = [
+  "success",
+  "missing-input-secret",
+  "invalid-input-secret",
+  "missing-input-response",
+  "invalid-input-response",
+  "bad-request",
+  "timeout-or-duplicate",
+  "stale",
+  "wrong-hostname",
+];
+
+/**
+ * Build a successful siteverify response
+ */
+const success = (
+  hostname: string,
+  solvedAt: number
+): ReCaptchaSiteverifyResponse => ({
+  success: true,
+  challenge_ts: new Date(solvedAt).toISOString().replace(/\.\d{3}Z$/, "Z"),
+  hostname,
+  "error-codes": [],
+});
+
+/**
+ * Build a failed siteverify response
+ */
+const failure = (
+  code: ReCaptchaSiteverifyErrorCode
+): ReCaptchaSiteverifyResponse => ({
+  success: false,
+  "error-codes": [code],
+});
+
+/**
+ * Create a mock siteverify endpoint that runs in memory.
+ *
+ * @param options Scenario and reported hostnames
+ * @returns A handler, a matching `fetch` and the log of received requests
+ *
+ * @example
+ * ```ts
+ * const mock = createMockSiteverify({ scenario: 'timeout-or-duplicate' });
+ *
+ * const result = await verifyReCaptchaToken('any-token', {
+ *   secret: 'test-secret',
+ *   fetch: mock.fetch,
+ * });
+ * // result['error-codes'] → ['timeout-or-duplicate']
+ * ```
+ */
+export const createMockSiteverify = (
+  options: MockSiteverifyOptions = {}
+): MockSiteverify => {
+  const {
+    hostname = "localhost",
+    wrongHostname = "wrong-hostname.invalid",
+    staleAgeMs = 10 * 60_000,
+  } = options;
+  let scenario = options.scenario;
+  const requests: MockSiteverifyRequest[] = [];
+
+  const respond = (request: MockSiteverifyRequest) => {
+    // Mirror Google's validation of the required fields first
+    if (!request.secret) return failure("missing-input-secret");
+    if (!request.response) return failure("missing-input-response");
+
+    const picked =
+      typeof scenario === "function"
+        ? scenario(request)
+        : scenario ??
+          (SCENARIOS.includes(request.response as MockSiteverifyScenario)
+            ? (request.response as MockSiteverifyScenario)
+            : "success");
+
+    if (typeof picked !== "string") return picked;
+
+    const now = Date.now();
+    switch (picked) {
+      case "success":
+        return success(hostname, now);
+      case "stale":
+        return success(hostname, now - staleAgeMs);
+      case "wrong-hostname":
+        return success(wrongHostname, now);
+      default:
+        return failure(picked);
+    }
+  };
+
+  const handler = async (request: Request): Promise<Response> => {
+    if (request.method !== "POST") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    const params = new URLSearchParams(await request.text());
+    const received: MockSiteverifyRequest = {
+      secret: params.get("secret"),
+      response: params.get("response"),
+      remoteip: params.get("remoteip"),
+    };
+    requests.push(received);
+
+    return Response.json(respond(received));
+  };
+
+  const mockFetch = ((input: RequestInfo | URL, init?: RequestInit) =>
+    handler(new Request(input, init))) as typeof fetch;
+
+  return {
+    handler,
+    fetch: mockFetch,
+    requests,
+    setScenario: (next) => {
+      scenario = next;
+    },
+  };
+};
+
+/**
+ * Start a mock siteverify endpoint on a local port (Node.js only).
+ *
+ * @param options Scenario, reported hostnames and the port to listen on
+ * @returns The server's URL, the log of received requests and `close()`
+ *
+ * @example
+ * ```ts
+ * const mock = await startMockSiteverifyServer();
+ *
+ * const result = await verifyReCaptcha('wrong-hostname', {
+ *   secret: 'test-secret',
+ *   siteverifyUrl: mock.url,
+ *   allowedHostnames: ['localhost'],
+ * });
+ * // result.reason → 'hostname-mismatch'
+ *
+ * await mock.close();
+ * ```
+ */
+export const startMockSiteverifyServer = async (
+  options: MockSiteverifyServerOptions = {}
+): Promise<MockSiteverifyServer> => {
+  const { port = 0, listenHost = "127.0.0.1", ...mockOptions } = options;
+  const { createServer } = await import("node:http");
+  const mock = createMockSiteverify(mockOptions);
+
+  const server = createServer((req, res) => {
+    const chunks: Uint8Array[] = [];
+    req.on("data", (chunk: Uint8Array) => chunks.push(chunk));
+    req.on("end", () => {
+      const request = new Request(`http://${listenHost}${req.url ?? "/"}`, {
+        method: req.method,
+        headers: { "content-type": req.headers["content-type"] ?? "" },
+        body:
+          req.method === "POST" ? Buffer.concat(chunks).toString() : undefined,
+      });
+
+      mock
+        .handler(request)
+        .then(async (response) => {
+          res.statusCode = response.status;
+          response.headers.forEach((value, name) => res.setHeader(name, value));
+          res.end(await response.text());
+        })
+        .catch(() => {
+          res.statusCode = 500;
+          res.end();
+        });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, listenHost, () => resolve());
+  });
+
+  const address = server.address();
+  const boundPort =
+    address && typeof address === "object" ? address.port : port;
+
+  return {
+    url: `http://${listenHost}:${boundPort}/recaptcha/api/siteverify`,
+    requests: mock.requests,
+    setScenario: mock.setScenario,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+};
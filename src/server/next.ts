@@ -0,0 +1,62 @@
+import { ReCaptchaVerifiedResult } from "../types";
+import {
+  createReCaptchaErrorResponse,
+  ReCaptchaRequestOptions,
+  verifyReCaptchaRequest,
+} from "./http";
+
+/**
+ * Route handler wrapped by `withReCaptcha`. Receives the verified result as a
+ * third argument after Next.js' request and context.
+ */
+export type ReCaptchaRouteHandler<R extends Request, C> = (
+  request: R,
+  context: C,
+  recaptcha: ReCaptchaVerifiedResult
+) => Response | Promise<Response>;
+
+/**
+ * Protect a Next.js App Router route handler with reCAPTCHA.
+ *
+ * The token is read from the configured header, JSON field or form field and
+ * verified before the handler runs. Missing tokens get a 400, rejected tokens
+ * a 403 and siteverify outages a 502, each with a `{ success, error, message }`
+ * JSON body. The request body is left unread, so the handler can still call
+ * `request.json()` or `request.formData()`.
+ *
+ * @param handler The route handler to run once the token is verified
+ * @param options Siteverify, policy and token source options
+ * @returns A route handler to export as `POST`, `PUT`, etc.
+ *
+ * @example
+ * ```ts
+ * // app/api/contact/route.ts
+ * import { withReCaptcha } from 'react-recaptcha-v2/server';
+ *
+ * export const POST = withReCaptcha(
+ *   async (request) => {
+ *     const { email, message } = await request.json();
+ *     // …business logic
+ *     return Response.json({ success: true });
+ *   },
+ *   {
+ *     secret: process.env.RECAPTCHA_SECRET_KEY!,
+ *     jsonField: 'recaptchaToken',
+ *   }
+ * );
+ * ```
+ */
+export const withReCaptcha = <R extends Request = Request, C = unknown>(
+  handler: ReCaptchaRouteHandler<R, C>,
+  options: ReCaptchaRequestOptions
+) => {
+  return async (request: R, context: C): Promise<Response> => {
+    const outcome = await verifyReCaptchaRequest(request, options);
+
+    if (!outcome.ok) {
+      return createReCaptchaErrorResponse(outcome);
+    }
+
+    return handler(request, context, outcome.result);
+  };
+};
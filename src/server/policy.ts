@@ -0,0 +1,115 @@
+import {
+  ReCaptchaSiteverifyResponse,
+  ReCaptchaVerificationPolicy,
+  ReCaptchaVerificationResult,
+} from "../types";
+
+/**
+ * Check whether a hostname matches one of the allowed patterns
+ * @param hostname Hostname reported by siteverify
+ * @param allowed Allowed hostnames (case-insensitive) or patterns
+ * @returns True if the hostname is allowed
+ */
+const isHostnameAllowed = (
+  hostname: string,
+  allowed: Array<string | RegExp>
+): boolean => {
+  const normalized = hostname.toLowerCase();
+  return allowed.some((entry) =>
+    typeof entry === "string"
+      ? entry.toLowerCase() === normalized
+      : entry.test(hostname)
+  );
+};
+
+/**
+ * Check where the token was solved. Android tokens (with an
+ * `apk_package_name`) are checked against `allowedApkPackageNames`, web
+ * tokens against `allowedHostnames`; each check is skipped when its list is
+ * not configured.
+ */
+const checkOrigin = (
+  response: ReCaptchaSiteverifyResponse,
+  policy: ReCaptchaVerificationPolicy
+): ReCaptchaVerificationResult | null => {
+  const { allowedHostnames, allowedApkPackageNames } = policy;
+  const { hostname, apk_package_name: apkPackageName } = response;
+
+  if (apkPackageName) {
+    if (
+      !allowedApkPackageNames ||
+      allowedApkPackageNames.includes(apkPackageName)
+    ) {
+      return null;
+    }
+    return { success: false, reason: "apk-package-name-mismatch", response };
+  }
+
+  if (
+    !allowedHostnames ||
+    (hostname && isHostnameAllowed(hostname, allowedHostnames))
+  ) {
+    return null;
+  }
+  return { success: false, reason: "hostname-mismatch", response };
+};
+
+/**
+ * Check the age of the token against `maxTokenAgeMs`
+ */
+const checkAge = (
+  response: ReCaptchaSiteverifyResponse,
+  policy: ReCaptchaVerificationPolicy,
+  now: number
+): ReCaptchaVerificationResult | null => {
+  if (policy.maxTokenAgeMs === undefined) return null;
+
+  const solvedAt = response.challenge_ts
+    ? Date.parse(response.challenge_ts)
+    : NaN;
+
+  if (Number.isNaN(solvedAt)) {
+    return { success: false, reason: "challenge-timestamp-invalid", response };
+  }
+
+  if (now - solvedAt > policy.maxTokenAgeMs) {
+    return { success: false, reason: "token-too-old", response };
+  }
+
+  return null;
+};
+
+/**
+ * Apply a verification policy to a siteverify response.
+ *
+ * @param response The response returned by `verifyReCaptchaToken`
+ * @param policy Hostname/package allowlists and maximum token age
+ * @param now Current time in milliseconds, defaults to `Date.now()`
+ * @returns A result with a distinct `reason` when the token is rejected
+ *
+ * @example
+ * ```ts
+ * const result = checkReCaptchaPolicy(response, {
+ *   allowedHostnames: ['example.com', /\.example\.com$/],
+ *   maxTokenAgeMs: 60_000,
+ * });
+ *
+ * if (!result.success) {
+ *   console.warn('reCAPTCHA rejected:', result.reason);
+ * }
+ * ```
+ */
+export const checkReCaptchaPolicy = (
+  response: ReCaptchaSiteverifyResponse,
+  policy: ReCaptchaVerificationPolicy,
+  now: number = Date.now()
+): ReCaptchaVerificationResult => {
+  if (!response.success) {
+    return { success: false, reason: "siteverify-failed", response };
+  }
+
+  return (
+    checkOrigin(response, policy) ??
+    checkAge(response, policy, now) ?? { success: true, response }
+  );
+};
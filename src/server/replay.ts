@@ -0,0 +1,130 @@
+/**
+ * Default time a used token is remembered for, in milliseconds.
+ * Tokens are only valid for two minutes, so this leaves a generous margin.
+ */
+export const DEFAULT_REPLAY_TTL_MS = 5 * 60_000;
+
+/**
+ * Storage for tokens that have already been used.
+ *
+ * Implementations must make `claim` atomic: when two requests claim the same
+ * key concurrently, exactly one of them may receive `true`.
+ *
+ * @example
+ * ```ts
+ * // Redis (ioredis / node-redis): SET NX with a millisecond expiry
+ * const redisStore: ReCaptchaReplayStore = {
+ *   claim: async (key, ttlMs) =>
+ *     (await redis.set(`recaptcha:${key}`, '1', 'PX', ttlMs, 'NX')) === 'OK',
+ *   release: async (key) => {
+ *     await redis.del(`recaptcha:${key}`);
+ *   },
+ * };
+ *
+ * // SQL: rely on a unique constraint and purge expired rows periodically
+ * const sqlStore: ReCaptchaReplayStore = {
+ *   claim: async (key, ttlMs) => {
+ *     const inserted = await db.query(
+ *       'INSERT INTO used_tokens (hash, expires_at) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+ *       [key, new Date(Date.now() + ttlMs)]
+ *     );
+ *     return inserted.rowCount === 1;
+ *   },
+ * };
+ * ```
+ */
+export interface ReCaptchaReplayStore {
+  /**
+   * Record a token hash as used
+   * @param key SHA-256 hex digest of the token
+   * @param ttlMs How long the entry must be remembered for
+   * @returns True if the key was recorded, false if it was already present
+   */
+  claim: (key: string, ttlMs: number) => boolean | Promise<boolean>;
+
+  /**
+   * Forget a claimed key, so a token that never reached Google can be
+   * retried. Without it, such a token fails with `replayed` until its entry
+   * expires.
+   * @param key SHA-256 hex digest of the token
+   */
+  release?: (key: string) => void | Promise<void>;
+}
+
+/**
+ * Options for the in-memory replay store
+ */
+export interface MemoryReplayStoreOptions {
+  /**
+   * Maximum number of entries kept; the least recently used are evicted first
+   * @default 10000
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Create an in-memory LRU replay store.
+ *
+ * Entries live in the current process only, so use a shared store (Redis,
+ * a database) when running several instances or serverless functions.
+ *
+ * @param options Store size limit
+ * @returns A replay store backed by a `Map`
+ */
+export const createMemoryReplayStore = ({
+  maxEntries = 10_000,
+}: MemoryReplayStoreOptions = {}): ReCaptchaReplayStore => {
+  // Map preserves insertion order, so the first key is the least recently used
+  const entries = new Map<string, number>();
+
+  return {
+    claim: (key, ttlMs) => {
+      const now = Date.now();
+      const expiresAt = entries.get(key);
+
+      if (expiresAt !== undefined && expiresAt > now) {
+        // Refresh recency so hot replays are not evicted first
+        entries.delete(key);
+        entries.set(key, expiresAt);
+        return false;
+      }
+
+      entries.delete(key);
+      entries.set(key, now + ttlMs);
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+
+      return true;
+    },
+
+    release: (key) => {
+      entries.delete(key);
+    },
+  };
+};
+
+/**
+ * Hash a token with SHA-256 so raw tokens are never stored
+ * @param token The reCAPTCHA token
+ * @returns Lowercase hex digest of the token
+ */
+export const hashReCaptchaToken = async (token: string): Promise<string> => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error(
+      "Web Crypto is not available in this runtime; cannot hash reCAPTCHA tokens."
+    );
+  }
+
+  const digest = await subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token)
+  );
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
@@ -0,0 +1,46 @@
+/**
+ * Site key published by Google for automated tests. Every challenge passes
+ * and the widget shows a warning that it is for testing only.
+ * @see https://developers.google.com/recaptcha/docs/faq#id-like-to-run-automated-tests-with-recaptcha.-what-should-i-do
+ */
+export const RECAPTCHA_TEST_SITE_KEY =
+  "6LeIxAcTAAAAAJcZVRqyHh71UMIEGNQ_MXjiZKhI";
+
+/**
+ * Secret key published by Google for automated tests. Siteverify accepts any
+ * token with it.
+ */
+export const RECAPTCHA_TEST_SECRET_KEY =
+  "6LeIxAcTAAAAAGG-vFI1TnRWxMZNFuojJ4WifJWe";
+
+/**
+ * Check whether a key is one of Google's published test keys
+ * @param key A site key or secret key
+ * @returns True if the key is a test key
+ */
+export const isReCaptchaTestKey = (key: string): boolean =>
+  key === RECAPTCHA_TEST_SITE_KEY || key === RECAPTCHA_TEST_SECRET_KEY;
+
+/**
+ * Whether the production warning has already been printed
+ */
+let testKeyWarningShown = false;
+
+/**
+ * Warn once when a test key is used while `NODE_ENV` is `production`,
+ * since test keys accept every token and offer no protection.
+ * @param key The key about to be used
+ */
+export const warnIfTestKeyInProduction = (key: string): void => {
+  if (testKeyWarningShown || !isReCaptchaTestKey(key)) return;
+
+  const nodeEnv =
+    typeof process !== "undefined" ? process.env?.NODE_ENV : undefined;
+  if (nodeEnv !== "production") return;
+
+  testKeyWarningShown = true;
+  console.warn(
+    "[react-recaptcha-v2] Google's reCAPTCHA test keys are in use with NODE_ENV=production. " +
+      "Every token will pass verification; replace them with your own keys."
+  );
+};
@@ -0,0 +1,239 @@
+import {
+  ReCaptchaSiteverifyErrorCode,
+  ReCaptchaSiteverifyResponse,
+  ReCaptchaVerificationPolicy,
+  ReCaptchaVerificationResult,
+} from "../types";
+import { checkReCaptchaPolicy } from "./policy";
+import { warnIfTestKeyInProduction } from "./testKeys";
+import {
+  DEFAULT_REPLAY_TTL_MS,
+  hashReCaptchaToken,
+  ReCaptchaReplayStore,
+} from "./replay";
+
+/**
+ * Default URL of Google's siteverify endpoint
+ */
+export const RECAPTCHA_SITEVERIFY_URL =
+  "https://www.google.com/recaptcha/api/siteverify";
+
+/**
+ * Options for verifying a reCAPTCHA token on the server
+ */
+export interface VerifyReCaptchaTokenOptions {
+  /**
+   * The secret key provided by Google reCAPTCHA
+   */
+  secret: string;
+
+  /**
+   * The user's IP address, forwarded to Google as `remoteip`
+   */
+  remoteip?: string;
+
+  /**
+   * `fetch` implementation used to call siteverify
+   * Defaults to the global `fetch` of the current runtime
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * URL of the siteverify endpoint, e.g. a local mock server in tests
+   * @default 'https://www.google.com/recaptcha/api/siteverify'
+   */
+  siteverifyUrl?: string;
+}
+
+/**
+ * Options for verifying a token and applying a verification policy
+ */
+export interface VerifyReCaptchaOptions
+  extends VerifyReCaptchaTokenOptions,
+    ReCaptchaVerificationPolicy {
+  /**
+   * Store used to reject tokens that were already used on this server
+   */
+  replayStore?: ReCaptchaReplayStore;
+
+  /**
+   * How long a used token is remembered by `replayStore`, in milliseconds
+   * @default 300000
+   */
+  replayTtlMs?: number;
+}
+
+/**
+ * Thrown when the token could not be sent to Google at all, so it is still
+ * unused
+ */
+class SiteverifyUnreachableError extends Error {}
+
+/**
+ * Normalise the `error-codes` value returned by Google
+ * @param value Raw `error-codes` value from the siteverify JSON
+ * @returns An array of error codes (empty if none were returned)
+ */
+const toErrorCodes = (value: unknown): ReCaptchaSiteverifyErrorCode[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (code): code is ReCaptchaSiteverifyErrorCode => typeof code === "string"
+  );
+};
+
+/**
+ * Verify a reCAPTCHA token with Google's siteverify endpoint.
+ *
+ * Works on any runtime that provides the Fetch API (Node.js 18+, Edge,
+ * Workers). Network and HTTP failures are thrown; a rejected token resolves
+ * with `success: false` and the `error-codes` reported by Google.
+ *
+ * @param token The token produced by the client-side widget
+ * @param options Secret key, optional remote IP and `fetch` override
+ * @returns The typed siteverify response
+ *
+ * @example
+ * ```ts
+ * import { verifyReCaptchaToken } from 'react-recaptcha-v2/server';
+ *
+ * const result = await verifyReCaptchaToken(token, {
+ *   secret: process.env.RECAPTCHA_SECRET_KEY!,
+ * });
+ *
+ * if (!result.success) {
+ *   console.warn(result['error-codes']);
+ * }
+ * ```
+ */
+export const verifyReCaptchaToken = async (
+  token: string,
+  options: VerifyReCaptchaTokenOptions
+): Promise<ReCaptchaSiteverifyResponse> => {
+  const {
+    secret,
+    remoteip,
+    fetch: fetchImpl = globalThis.fetch,
+    siteverifyUrl = RECAPTCHA_SITEVERIFY_URL,
+  } = options;
+
+  // Skip the round-trip for inputs Google would reject anyway
+  if (!secret) {
+    return { success: false, "error-codes": ["missing-input-secret"] };
+  }
+  if (!token) {
+    return { success: false, "error-codes": ["missing-input-response"] };
+  }
+
+  warnIfTestKeyInProduction(secret);
+
+  if (typeof fetchImpl !== "function") {
+    throw new SiteverifyUnreachableError(
+      "No fetch implementation available. Pass one via the `fetch` option."
+    );
+  }
+
+  const body = new URLSearchParams({ secret, response: token });
+  if (remoteip) {
+    body.append("remoteip", remoteip);
+  }
+
+  let response: Response;
+  try {
+    response = await fetchImpl(siteverifyUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: body.toString(),
+    });
+  } catch (error) {
+    throw new SiteverifyUnreachableError(
+      "Failed to reach the reCAPTCHA siteverify endpoint.",
+      { cause: error }
+    );
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      `reCAPTCHA siteverify responded with HTTP ${response.status}.`
+    );
+  }
+
+  const json = (await response.json()) as Record<string, unknown>;
+
+  return {
+    success: json.success === true,
+    challenge_ts:
+      typeof json.challenge_ts === "string" ? json.challenge_ts : undefined,
+    hostname: typeof json.hostname === "string" ? json.hostname : undefined,
+    apk_package_name:
+      typeof json.apk_package_name === "string"
+        ? json.apk_package_name
+        : undefined,
+    "error-codes": toErrorCodes(json["error-codes"]),
+  };
+};
+
+/**
+ * Verify a reCAPTCHA token and apply a verification policy to the result.
+ *
+ * Combines `verifyReCaptchaToken` and `checkReCaptchaPolicy`: the token is
+ * only accepted if Google reports success and the response satisfies the
+ * configured hostname, Android package and token age checks.
+ *
+ * When a `replayStore` is given, the token's hash is claimed before calling
+ * Google, so a second request with the same token fails with `replayed`
+ * without another siteverify round-trip. If the request to siteverify fails
+ * before reaching Google, the claim is released so the client can retry
+ * with the same token. Once Google has answered, even with an HTTP error or
+ * an unreadable body, the token counts as used.
+ *
+ * @param token The token produced by the client-side widget
+ * @param options Siteverify options plus the verification policy
+ * @returns A result with a distinct `reason` when the token is rejected
+ *
+ * @example
+ * ```ts
+ * const result = await verifyReCaptcha(token, {
+ *   secret: process.env.RECAPTCHA_SECRET_KEY!,
+ *   allowedHostnames: ['example.com'],
+ *   maxTokenAgeMs: 2 * 60_000,
+ * });
+ *
+ * if (!result.success) {
+ *   return Response.json({ error: result.reason }, { status: 403 });
+ * }
+ * ```
+ */
+export const verifyReCaptcha = async (
+  token: string,
+  options: VerifyReCaptchaOptions
+): Promise<ReCaptchaVerificationResult> => {
+  const { replayStore, replayTtlMs = DEFAULT_REPLAY_TTL_MS } = options;
+
+  let claimedKey: string | null = null;
+  if (replayStore && token) {
+    const key = await hashReCaptchaToken(token);
+    const claimed = await replayStore.claim(key, replayTtlMs);
+
+    if (!claimed) {
+      return {
+        success: false,
+        reason: "replayed",
+        response: { success: false, "error-codes": ["timeout-or-duplicate"] },
+      };
+    }
+    claimedKey = key;
+  }
+
+  let response: ReCaptchaSiteverifyResponse;
+  try {
+    response = await verifyReCaptchaToken(token, options);
+  } catch (error) {
+    // Only a request that never reached Google leaves the token unused
+    if (claimedKey !== null && error instanceof SiteverifyUnreachableError) {
+      await replayStore?.release?.(claimedKey);
+    }
+    throw error;
+  }
+
+  return checkReCaptchaPolicy(response, options);
+};
@@ -0,0 +1,51 @@
+/**
+ * Lifecycle of a reCAPTCHA widget
+ *
+ * - `idle`: not rendered (`explicit` widgets before `render()` or after
+ *   `destroy()`, widgets waiting for their `loadStrategy`)
+ * - `loading-script`: waiting for Google's script
+ * - `rendering`: the script is ready and the widget is being rendered
+ * - `ready`: the widget is rendered and has no token
+ * - `executing`: a challenge was started with `execute`/`executeAsync`
+ * - `verified`: the widget holds a valid token
+ * - `expired`: the token expired
+ * - `error`: loading, rendering or the widget failed
+ */
+export type ReCaptchaStatus =
+  | 'idle'
+  | 'loading-script'
+  | 'rendering'
+  | 'ready'
+  | 'executing'
+  | 'verified'
+  | 'expired'
+  | 'error';
+
+/**
+ * Statuses each status can move to. Any rendered widget can go back to
+ * `loading-script` when its options change or the script is reloaded, and
+ * to `idle` when destroyed.
+ */
+export const RECAPTCHA_STATUS_TRANSITIONS: Readonly<
+  Record<ReCaptchaStatus, readonly ReCaptchaStatus[]>
+> = {
+  idle: ['loading-script', 'error'],
+  'loading-script': ['rendering', 'error', 'idle'],
+  rendering: ['ready', 'error', 'loading-script', 'idle'],
+  ready: ['executing', 'verified', 'error', 'loading-script', 'idle'],
+  executing: ['verified', 'expired', 'ready', 'error', 'loading-script', 'idle'],
+  verified: ['executing', 'expired', 'ready', 'error', 'loading-script', 'idle'],
+  expired: ['executing', 'verified', 'ready', 'error', 'loading-script', 'idle'],
+  error: ['loading-script', 'ready', 'executing', 'verified', 'expired', 'idle'],
+};
+
+/**
+ * Check whether a widget may move from one status to another
+ * @param from The current status
+ * @param to The next status
+ * @returns True if the transition is valid
+ */
+export const canTransitionReCaptchaStatus = (
+  from: ReCaptchaStatus,
+  to: ReCaptchaStatus
+): boolean => RECAPTCHA_STATUS_TRANSITIONS[from].includes(to);
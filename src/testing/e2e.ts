@@ -0,0 +1,278 @@
+/**
+ * How the fake widget answers a challenge
+ * - `verify`: the challenge succeeds with `token`
+ * - `expire`: the challenge succeeds, then the token expires after
+ *   `expireAfterMs`
+ * - `error`: the widget reports `errorMessage` through `error-callback`
+ */
+export type FakeScriptOutcome = "verify" | "expire" | "error";
+
+/**
+ * Options for the fake `api.js`
+ */
+export interface FakeReCaptchaScriptOptions {
+  /**
+   * How challenges are answered; can be changed in the page with
+   * `window.__fakeReCaptcha.setOutcome()`
+   * @default 'verify'
+   */
+  outcome?: FakeScriptOutcome;
+
+  /**
+   * Token returned by successful challenges
+   * @default 'fake-recaptcha-token'
+   */
+  token?: string;
+
+  /**
+   * Message passed to `error-callback`
+   * @default 'fake-recaptcha-error'
+   */
+  errorMessage?: string;
+
+  /**
+   * Delay before a challenge is answered, in milliseconds
+   * @default 0
+   */
+  delayMs?: number;
+
+  /**
+   * Delay between success and expiry for the `expire` outcome
+   * @default 0
+   */
+  expireAfterMs?: number;
+}
+
+/**
+ * Options for the E2E helpers
+ */
+export interface FakeReCaptchaRouteOptions extends FakeReCaptchaScriptOptions {
+  /**
+   * Requests to answer with the fake script. Set this when the app loads
+   * `api.js` from a custom `scriptUrl`.
+   * @default RECAPTCHA_SCRIPT_PATTERN
+   */
+  url?: RegExp;
+}
+
+/**
+ * Requests matched by the E2E helpers by default: `api.js` on
+ * www.google.com or www.recaptcha.net with any query string (e.g. `?hl=fr`)
+ */
+export const RECAPTCHA_SCRIPT_PATTERN =
+  /^https:\/\/www\.(google\.com|recaptcha\.net)\/recaptcha\/api\.js(\?.*)?$/;
+
+/**
+ * Source of the fake `api.js`. Kept as plain ES5 so it runs unchanged in any
+ * browser the E2E runner drives.
+ */
+const FAKE_SCRIPT_SOURCE = `(function (config) {
+  var widgets = [];
+  var state = {
+    outcome: config.outcome,
+    token: config.token,
+    errorMessage: config.errorMessage,
+    delayMs: config.delayMs,
+    expireAfterMs: config.expireAfterMs
+  };
+
+  function getWidget(id) {
+    var widget = widgets[id === undefined ? 0 : id];
+    if (!widget) throw new Error('Fake reCAPTCHA widget ' + id + ' not found.');
+    return widget;
+  }
+
+  function setResponse(widget, value) {
+    widget.response = value;
+    widget.textarea.value = value;
+    if (widget.checkbox) widget.checkbox.checked = !!value;
+  }
+
+  function expire(widget) {
+    setResponse(widget, '');
+    var cb = widget.parameters['expired-callback'];
+    if (cb) cb();
+  }
+
+  function answer(widget) {
+    setTimeout(function () {
+      var parameters = widget.parameters;
+      if (state.outcome === 'error') {
+        if (widget.checkbox) widget.checkbox.checked = false;
+        if (parameters['error-callback']) parameters['error-callback'](state.errorMessage);
+        return;
+      }
+      setResponse(widget, state.token);
+      if (parameters.callback) parameters.callback(state.token);
+      if (state.outcome === 'expire') {
+        setTimeout(function () { expire(widget); }, state.expireAfterMs);
+      }
+    }, state.delayMs);
+  }
+
+  function render(container, parameters) {
+    var element = typeof container === 'string' ? document.getElementById(container) : container;
+    if (!element) throw new Error('reCAPTCHA container ' + container + ' not found.');
+
+    var widget = { id: widgets.length, parameters: parameters, response: '', checkbox: null };
+    var root = document.createElement('div');
+    root.setAttribute('data-testid', 'fake-recaptcha');
+    root.setAttribute('data-fake-recaptcha-size', parameters.size || 'normal');
+
+    if (parameters.size === 'invisible') {
+      root.setAttribute('class', 'grecaptcha-badge');
+      root.textContent = 'reCAPTCHA (test)';
+    } else {
+      var label = document.createElement('label');
+      var checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.setAttribute('data-testid', 'fake-recaptcha-checkbox');
+      checkbox.addEventListener('click', function (event) {
+        if (widget.response) { event.preventDefault(); return; }
+        answer(widget);
+      });
+      label.appendChild(checkbox);
+      label.appendChild(document.createTextNode(" I'm not a robot (test)"));
+      root.appendChild(label);
+      widget.checkbox = checkbox;
+    }
+
+    var textarea = document.createElement('textarea');
+    textarea.name = 'g-recaptcha-response';
+    textarea.style.display = 'none';
+    root.appendChild(textarea);
+    widget.textarea = textarea;
+
+    element.appendChild(root);
+    widgets.push(widget);
+    return widget.id;
+  }
+
+  window.grecaptcha = {
+    ready: function (callback) { setTimeout(callback, 0); },
+    render: render,
+    execute: function (id) { answer(getWidget(id)); },
+    reset: function (id) { setResponse(getWidget(id), ''); },
+    getResponse: function (id) { return getWidget(id).response; }
+  };
+
+  window.__fakeReCaptcha = {
+    widgets: widgets,
+    setOutcome: function (outcome, token) {
+      state.outcome = outcome;
+      if (token !== undefined) state.token = token;
+    },
+    expire: function (id) { expire(getWidget(id)); }
+  };
+})`;
+
+/**
+ * Build the source of a fake `api.js` that defines
+ * `grecaptcha.ready/render/execute/reset/getResponse`.
+ *
+ * Normal and compact widgets render a visible checkbox
+ * (`[data-testid="fake-recaptcha-checkbox"]`); invisible widgets answer
+ * `execute()`. The page can switch outcomes at runtime through
+ * `window.__fakeReCaptcha.setOutcome(outcome, token?)` and expire a widget
+ * with `window.__fakeReCaptcha.expire(id?)`.
+ *
+ * @param options Outcome, token and timings
+ * @returns JavaScript source to serve in place of Google's `api.js`
+ */
+export const createFakeReCaptchaScript = ({
+  outcome = "verify",
+  token = "fake-recaptcha-token",
+  errorMessage = "fake-recaptcha-error",
+  delayMs = 0,
+  expireAfterMs = 0,
+}: FakeReCaptchaScriptOptions = {}): string => {
+  const config = { outcome, token, errorMessage, delayMs, expireAfterMs };
+  return `${FAKE_SCRIPT_SOURCE}(${JSON.stringify(config)});`;
+};
+
+/**
+ * The parts of a Playwright `Page` or `BrowserContext` used by
+ * `routeFakeReCaptcha`
+ */
+export interface PlaywrightRouteTarget {
+  route: (
+    url: RegExp,
+    handler: (route: {
+      fulfill: (response: {
+        status?: number;
+        contentType?: string;
+        body?: string;
+      }) => Promise<void>;
+    }) => unknown
+  ) => Promise<unknown>;
+}
+
+/**
+ * The parts of Cypress' `cy` used by `interceptFakeReCaptcha`
+ */
+export interface CypressInterceptTarget {
+  intercept: (
+    url: RegExp,
+    response: {
+      statusCode?: number;
+      headers?: Record<string, string>;
+      body?: string;
+    }
+  ) => unknown;
+}
+
+/**
+ * Serve the fake `api.js` to a Playwright page or browser context.
+ *
+ * @param target The Playwright `page` or `context`
+ * @param options Outcome, token, timings and the script URL to match
+ * @returns Resolves once the route is registered
+ *
+ * @example
+ * ```ts
+ * import { routeFakeReCaptcha } from 'react-recaptcha-v2/testing';
+ *
+ * test('submits the contact form', async ({ page }) => {
+ *   await routeFakeReCaptcha(page, { outcome: 'verify', token: 'e2e-token' });
+ *   await page.goto('/contact');
+ *   await page.getByTestId('fake-recaptcha-checkbox').click();
+ * });
+ * ```
+ */
+export const routeFakeReCaptcha = async (
+  target: PlaywrightRouteTarget,
+  { url = RECAPTCHA_SCRIPT_PATTERN, ...options }: FakeReCaptchaRouteOptions = {}
+): Promise<void> => {
+  const body = createFakeReCaptchaScript(options);
+  await target.route(url, (route) =>
+    route.fulfill({ status: 200, contentType: "text/javascript", body })
+  );
+};
+
+/**
+ * Serve the fake `api.js` through Cypress' `cy.intercept`.
+ *
+ * @param cy The Cypress `cy` object
+ * @param options Outcome, token, timings and the script URL to match
+ * @returns Whatever `cy.intercept` returns, for chaining `.as()`
+ *
+ * @example
+ * ```ts
+ * import { interceptFakeReCaptcha } from 'react-recaptcha-v2/testing';
+ *
+ * it('shows the error message', () => {
+ *   interceptFakeReCaptcha(cy, { outcome: 'error' }).as('recaptcha');
+ *   cy.visit('/contact');
+ *   cy.get('[data-testid="fake-recaptcha-checkbox"]').click();
+ * });
+ * ```
+ */
+export const interceptFakeReCaptcha = <T extends CypressInterceptTarget>(
+  cy: T,
+  { url = RECAPTCHA_SCRIPT_PATTERN, ...options }: FakeReCaptchaRouteOptions = {}
+): ReturnType<T["intercept"]> =>
+  cy.intercept(url, {
+    statusCode: 200,
+    headers: { "content-type": "text/javascript" },
+    body: createFakeReCaptchaScript(options),
+  }) as ReturnType<T["intercept"]>;
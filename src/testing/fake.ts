@@ -0,0 +1,266 @@
+import { ReCaptchaRenderParameters, WindowWithReCaptcha } from "../types";
+import { resetReCaptchaLoader } from "../utils";
+
+/**
+ * The `grecaptcha` global as declared on `WindowWithReCaptcha`
+ */
+export type Grecaptcha = NonNullable<WindowWithReCaptcha["grecaptcha"]>;
+
+/**
+ * What a fake widget does when `grecaptcha.execute` is called
+ * - `verify`: call the widget's `callback` with `token`
+ * - `expire`: call the widget's `expired-callback`
+ * - `error`: call the widget's `error-callback` with `errorMessage`
+ * - `stall`: record the call and never respond
+ */
+export type FakeExecuteBehavior = "verify" | "expire" | "error" | "stall";
+
+/**
+ * Options for `installFakeReCaptcha`
+ */
+export interface FakeReCaptchaOptions {
+  /**
+   * Behavior of `execute` for newly rendered widgets
+   * @default 'verify'
+   */
+  executeBehavior?: FakeExecuteBehavior;
+
+  /**
+   * Token passed to `callback` when a widget verifies
+   * @default 'fake-recaptcha-token'
+   */
+  token?: string;
+
+  /**
+   * Message passed to `error-callback` when a widget errors
+   * @default 'fake-recaptcha-error'
+   */
+  errorMessage?: string;
+}
+
+/**
+ * A widget rendered by the fake `grecaptcha`
+ */
+export interface FakeReCaptchaWidget {
+  /**
+   * Widget ID returned by `render`
+   */
+  id: number;
+
+  /**
+   * Container the widget was rendered into
+   */
+  container: HTMLElement;
+
+  /**
+   * Parameters passed to `render`, including the callbacks
+   */
+  parameters: ReCaptchaRenderParameters;
+
+  /**
+   * Current response token, as returned by `getResponse`
+   */
+  response: string;
+
+  /**
+   * Number of `execute` calls for this widget
+   */
+  executeCalls: number;
+
+  /**
+   * Number of `reset` calls for this widget
+   */
+  resetCalls: number;
+
+  /**
+   * Behavior of the next `execute` calls
+   */
+  executeBehavior: FakeExecuteBehavior;
+
+  /**
+   * Complete the challenge and call `callback` with the token
+   */
+  verify: (token?: string) => void;
+
+  /**
+   * Clear the response and call `expired-callback`
+   */
+  expire: () => void;
+
+  /**
+   * Call `error-callback` with the message
+   */
+  error: (message?: string) => void;
+}
+
+/**
+ * Handle to an installed fake `grecaptcha`
+ */
+export interface FakeReCaptcha {
+  /**
+   * The fake object installed as `window.grecaptcha`
+   */
+  grecaptcha: Grecaptcha;
+
+  /**
+   * Widgets rendered so far, in render order
+   */
+  widgets: FakeReCaptchaWidget[];
+
+  /**
+   * Find a widget by ID or container; defaults to the last rendered widget
+   * @throws If no matching widget was rendered
+   */
+  getWidget: (idOrContainer?: number | HTMLElement) => FakeReCaptchaWidget;
+
+  /**
+   * Remove the fake from `window` and reset the script loader
+   */
+  uninstall: () => void;
+}
+
+/**
+ * Install a controllable fake `window.grecaptcha` for unit tests.
+ *
+ * The library's script loader adopts a `grecaptcha` that is already on the
+ * page, so `ReCaptcha` and `useReCaptcha` render against the fake without
+ * injecting Google's script. Installing and uninstalling the fake reset the
+ * loader, so each test starts from an unloaded script. Callbacks run
+ * synchronously; wrap the widget controls in `act()` when testing React
+ * components.
+ *
+ * @param options Default execute behavior, token and error message
+ * @returns Controls for the rendered widgets and `uninstall()`
+ *
+ * @example
+ * ```tsx
+ * import { installFakeReCaptcha } from 'react-recaptcha-v2/testing';
+ *
+ * let fake: FakeReCaptcha;
+ * beforeEach(() => { fake = installFakeReCaptcha(); });
+ * afterEach(() => fake.uninstall());
+ *
+ * it('submits the token', async () => {
+ *   const onVerify = jest.fn();
+ *   render(<ReCaptcha siteKey="test" onVerify={onVerify} />);
+ *   await waitFor(() => expect(fake.widgets).toHaveLength(1));
+ *
+ *   act(() => fake.getWidget().verify('token-123'));
+ *   expect(onVerify).toHaveBeenCalledWith('token-123');
+ * });
+ * ```
+ */
+export const installFakeReCaptcha = ({
+  executeBehavior = "verify",
+  token: defaultToken = "fake-recaptcha-token",
+  errorMessage: defaultErrorMessage = "fake-recaptcha-error",
+}: FakeReCaptchaOptions = {}): FakeReCaptcha => {
+  if (typeof window === "undefined") {
+    throw new Error("installFakeReCaptcha requires a DOM environment.");
+  }
+
+  const widgets: FakeReCaptchaWidget[] = [];
+
+  const getWidget = (idOrContainer?: number | HTMLElement) => {
+    const widget =
+      idOrContainer === undefined
+        ? widgets[widgets.length - 1]
+        : widgets.find((candidate) =>
+            typeof idOrContainer === "number"
+              ? candidate.id === idOrContainer
+              : candidate.container === idOrContainer
+          );
+
+    if (!widget) {
+      const target = idOrContainer ?? "the last render";
+      throw new Error(`No fake reCAPTCHA widget found for ${String(target)}.`);
+    }
+    return widget;
+  };
+
+  const createWidget = (
+    container: HTMLElement,
+    parameters: ReCaptchaRenderParameters
+  ): FakeReCaptchaWidget => {
+    const widget: FakeReCaptchaWidget = {
+      id: widgets.length,
+      container,
+      parameters,
+      response: "",
+      executeCalls: 0,
+      resetCalls: 0,
+      executeBehavior,
+      verify: (token = defaultToken) => {
+        widget.response = token;
+        widget.parameters.callback?.(token);
+      },
+      expire: () => {
+        widget.response = "";
+        widget.parameters["expired-callback"]?.();
+      },
+      error: (message = defaultErrorMessage) => {
+        widget.parameters["error-callback"]?.(message);
+      },
+    };
+    return widget;
+  };
+
+  const grecaptcha: Grecaptcha = {
+    ready: (callback) => callback(),
+    render: (container, parameters) => {
+      const element =
+        typeof container === "string"
+          ? document.getElementById(container)
+          : container;
+      if (!element) {
+        throw new Error(`reCAPTCHA container "${container}" not found.`);
+      }
+
+      const widget = createWidget(element, parameters);
+      widgets.push(widget);
+      return widget.id;
+    },
+    // Like Google's API, calls without a widget ID target the first widget
+    reset: (widgetId = 0) => {
+      const widget = getWidget(widgetId);
+      widget.resetCalls += 1;
+      widget.response = "";
+    },
+    execute: (widgetId = 0) => {
+      const widget = getWidget(widgetId);
+      widget.executeCalls += 1;
+
+      switch (widget.executeBehavior) {
+        case "verify":
+          widget.verify();
+          break;
+        case "expire":
+          widget.expire();
+          break;
+        case "error":
+          widget.error();
+          break;
+        case "stall":
+          break;
+      }
+    },
+    getResponse: (widgetId = 0) => getWidget(widgetId).response,
+  };
+
+  // Start from a fresh loader, whatever an earlier test left behind
+  resetReCaptchaLoader();
+  (window as WindowWithReCaptcha).grecaptcha = grecaptcha;
+
+  return {
+    grecaptcha,
+    widgets,
+    getWidget,
+    uninstall: () => {
+      const win = window as WindowWithReCaptcha;
+      if (win.grecaptcha === grecaptcha) {
+        delete win.grecaptcha;
+      }
+      resetReCaptchaLoader();
+    },
+  };
+};
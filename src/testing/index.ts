@@ -0,0 +1,34 @@
+/**
+ * React reCAPTCHA v2 - test doubles for unit-testing components that use
+ * `ReCaptcha` or `useReCaptcha` in jsdom, and a fake `api.js` for
+ * Playwright and Cypress.
+ *
+ * @packageDocumentation
+ */
+
+// Export the fake grecaptcha
+export { installFakeReCaptcha } from "./fake";
+
+// Export the E2E helpers
+export {
+  createFakeReCaptchaScript,
+  routeFakeReCaptcha,
+  interceptFakeReCaptcha,
+  RECAPTCHA_SCRIPT_PATTERN,
+} from "./e2e";
+
+// Export all types
+export type {
+  FakeExecuteBehavior,
+  FakeReCaptcha,
+  FakeReCaptchaOptions,
+  FakeReCaptchaWidget,
+  Grecaptcha,
+} from "./fake";
+export type {
+  CypressInterceptTarget,
+  FakeReCaptchaScriptOptions,
+  FakeReCaptchaRouteOptions,
+  FakeScriptOutcome,
+  PlaywrightRouteTarget,
+} from "./e2e";
@@ -2,6 +2,10 @@
  * Types for Google reCAPTCHA v2 integration with React
  */
 
+import type { ReactNode } from 'react';
+import type { ReCaptchaError } from './errors';
+import type { ReCaptchaStatus } from './status';
+
 /**
  * Available reCAPTCHA themes
  */
@@ -30,23 +34,168 @@ export type ReCaptchaOnExpiredCallback = () => void;
 
 /**
  * Type for reCAPTCHA callback function when an error occurs
- * @param error Error message
+ * @param error The error, with a machine-readable `code`
  */
-export type ReCaptchaOnErrorCallback = (error: string) => void;
+export type ReCaptchaOnErrorCallback = (error: ReCaptchaError) => void;
 
 /**
  * Type for reCAPTCHA callback function when the widget is loaded
  */
 export type ReCaptchaOnLoadCallback = () => void;
 
+/**
+ * Type for reCAPTCHA callback function when the token is about to expire
+ * @param msLeft Milliseconds until the token expires
+ */
+export type ReCaptchaOnExpiringSoonCallback = (msLeft: number) => void;
+
+/**
+ * Type for reCAPTCHA callback function when the widget status changes
+ * @param status The new status
+ * @param previous The status before the change
+ */
+export type ReCaptchaOnStatusChangeCallback = (
+  status: ReCaptchaStatus,
+  previous: ReCaptchaStatus
+) => void;
+
+/**
+ * Hosts serving Google's reCAPTCHA script
+ * Use `www.recaptcha.net` where `www.google.com` is not accessible
+ */
+export type ReCaptchaScriptHost = 'www.google.com' | 'www.recaptcha.net';
+
+/**
+ * Retry behavior when the reCAPTCHA script fails to load
+ */
+export interface ReCaptchaRetryOptions {
+  /**
+   * Number of retries after the first failed attempt
+   * @default 2
+   */
+  retries?: number;
+
+  /**
+   * Delay before the first retry; doubles with each retry
+   * @default 1000
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between retries
+   * @default 10000
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * Options controlling where and how the reCAPTCHA script is loaded
+ */
+export interface ReCaptchaScriptOptions {
+  /**
+   * The language code for the widget, sent as `hl`
+   */
+  language?: string;
+
+  /**
+   * Host serving `/recaptcha/api.js`
+   * @default 'www.google.com'
+   */
+  host?: ReCaptchaScriptHost;
+
+  /**
+   * Full script URL (e.g. a proxy on your own domain); overrides `host`
+   */
+  scriptUrl?: string;
+
+  /**
+   * Extra query parameters, e.g. `{ render: 'explicit', onload: 'onLoad' }`
+   */
+  params?: Record<string, string>;
+
+  /**
+   * CSP nonce set on the injected `<script>` element
+   */
+  nonce?: string;
+
+  /**
+   * Name of the Trusted Types policy used to create the script URL, for
+   * pages enforcing `require-trusted-types-for 'script'`. The policy name
+   * must be allowed by the page's `trusted-types` directive.
+   */
+  trustedTypesPolicyName?: string;
+
+  /**
+   * Retry failed loads with exponential backoff and jitter
+   */
+  retry?: ReCaptchaRetryOptions;
+}
+
+/**
+ * A consent manager the library asks before loading Google's script
+ */
+export interface ReCaptchaConsentAdapter {
+  /**
+   * Whether the user consented to loading reCAPTCHA
+   */
+  hasConsent: () => boolean;
+
+  /**
+   * Listen for consent changes
+   * @returns A function that unsubscribes the listener
+   */
+  subscribe: (listener: (granted: boolean) => void) => () => void;
+
+  /**
+   * Record consent given from the placeholder's "allow" action
+   */
+  grantConsent?: () => void;
+}
+
+/**
+ * Whether Google's script may be loaded: a boolean or a consent manager
+ * adapter
+ */
+export type ReCaptchaConsent = boolean | ReCaptchaConsentAdapter;
+
+/**
+ * A `<link>` hint that warms up the connection to Google's script
+ */
+export interface ReCaptchaResourceHint {
+  rel: 'preconnect' | 'dns-prefetch' | 'preload';
+  href: string;
+
+  /**
+   * Request destination, set on `preload` hints
+   */
+  as?: 'script';
+
+  /**
+   * CSP nonce, set on `preload` hints when given
+   */
+  nonce?: string;
+}
+
+/**
+ * Attributes of a `<script>` tag loading Google's script, for rendering it
+ * on the server. The loader adopts the tag instead of injecting another.
+ */
+export interface ReCaptchaScriptProps {
+  src: string;
+  async: true;
+  defer: true;
+  nonce?: string;
+}
+
 /**
  * Props for the ReCaptcha component
  */
 export interface ReCaptchaProps {
   /**
    * The site key provided by Google reCAPTCHA
+   * Required unless supplied by a `ReCaptchaProvider`
    */
-  siteKey: string;
+  siteKey?: string;
   
   /**
    * The theme of the widget
@@ -97,6 +246,31 @@ export interface ReCaptchaProps {
    * Callback function executed when the reCAPTCHA widget is loaded
    */
   onLoad?: ReCaptchaOnLoadCallback;
+
+  /**
+   * Callback function executed `expiringSoonThresholdMs` before the token
+   * expires
+   */
+  onExpiringSoon?: ReCaptchaOnExpiringSoonCallback;
+
+  /**
+   * Callback function executed when the widget status changes
+   */
+  onStatusChange?: ReCaptchaOnStatusChangeCallback;
+
+  /**
+   * How long before expiry `onExpiringSoon` fires (and `autoRefresh` runs),
+   * in milliseconds
+   * @default 30000
+   */
+  expiringSoonThresholdMs?: number;
+
+  /**
+   * Re-execute an invisible widget shortly before its token expires, so a
+   * fresh token is always available. Has no effect on visible widgets.
+   * @default false
+   */
+  autoRefresh?: boolean;
   
   /**
    * ID for the reCAPTCHA container element
@@ -110,10 +284,38 @@ export interface ReCaptchaProps {
   className?: string;
   
   /**
-   * Whether to render the reCAPTCHA explicitly rather than automatically
+   * Whether to render the reCAPTCHA explicitly rather than automatically.
+   * Call `render()` on the ref (or `load()` to fetch the script early).
    * @default false
    */
   explicit?: boolean;
+
+  /**
+   * When the script is loaded and the widget rendered. `executeAsync` loads
+   * on demand whatever the strategy.
+   * @default 'eager'
+   */
+  loadStrategy?: ReCaptchaLoadStrategy;
+
+  /**
+   * Hold Google's script back until consent is given. While it isn't, the
+   * widget shows `consentPlaceholder`; loading resumes once consent arrives.
+   * Falls back to `ReCaptchaProvider`, and to no gating without one.
+   */
+  consent?: ReCaptchaConsent;
+
+  /**
+   * Shown instead of the widget until consent is given, or a function
+   * rendering it from `grantConsent`. Defaults to
+   * `ReCaptchaConsentPlaceholder`.
+   */
+  consentPlaceholder?: ReactNode | ((grantConsent: () => void) => ReactNode);
+
+  /**
+   * Callback function executed when the user allows reCAPTCHA from the
+   * placeholder, e.g. to store the choice
+   */
+  onConsentGranted?: () => void;
   
   /**
    * Whether to hide the reCAPTCHA badge (for invisible reCAPTCHA only)
@@ -122,6 +324,72 @@ export interface ReCaptchaProps {
    * @default false
    */
   hideBadge?: boolean;
+
+  /**
+   * CSP nonce applied to every element the library injects: the script tag
+   * and the style hiding the badge
+   */
+  nonce?: string;
+
+  /**
+   * Where and how the reCAPTCHA script is loaded (host, URL, query params,
+   * Trusted Types policy)
+   * Only the options of the first load apply, as the script is loaded once
+   */
+  scriptOptions?: Omit<ReCaptchaScriptOptions, 'language' | 'nonce'>;
+
+  /**
+   * Name of a hidden input that receives the token, so it is submitted with
+   * the enclosing `<form>` (e.g. to a Server Action). The input is cleared
+   * when the token expires or the widget is reset.
+   */
+  inputName?: string;
+
+  /**
+   * Default time `executeAsync` waits for a token before rejecting with
+   * `execute-timeout`, in milliseconds. `Infinity` disables the timeout.
+   * @default 120000
+   */
+  executeTimeoutMs?: number;
+
+  /**
+   * How `executeAsync` calls made while a challenge runs are handled
+   * @default 'share'
+   */
+  executeConcurrency?: ReCaptchaExecuteConcurrency;
+}
+
+/**
+ * When a widget loads the script and renders
+ * - `eager`: on mount
+ * - `idle`: once the browser is idle (`requestIdleCallback`)
+ * - `visible`: once the container scrolls into view (`IntersectionObserver`)
+ * - `interaction`: on the first focus or input inside the closest `<form>`
+ */
+export type ReCaptchaLoadStrategy = 'eager' | 'idle' | 'visible' | 'interaction';
+
+/**
+ * How concurrent `executeAsync` calls behave
+ * - `share`: calls made while a challenge runs wait for its token
+ * - `queue`: each call runs its own challenge once the previous one settled
+ */
+export type ReCaptchaExecuteConcurrency = 'share' | 'queue';
+
+/**
+ * Options for a single `executeAsync` call
+ */
+export interface ReCaptchaExecuteOptions {
+  /**
+   * Time to wait for a token before rejecting with `execute-timeout`, in
+   * milliseconds. Overrides `executeTimeoutMs`; `Infinity` disables it.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Cancels the challenge: the promise rejects with `aborted` and the widget
+   * is reset
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -140,8 +408,11 @@ export interface ReCaptchaInstance {
    * ```ts
    * const token = await recaptchaRef.current?.executeAsync();
    * ```
+   *
+   * Rejects with a `ReCaptchaError` (e.g. code `expired`, `execute-timeout`,
+   * `aborted`)
    */
-  executeAsync: () => Promise<string>;
+  executeAsync: (options?: ReCaptchaExecuteOptions) => Promise<string>;
   
   /**
    * Reset the reCAPTCHA widget
@@ -152,6 +423,54 @@ export interface ReCaptchaInstance {
    * Get the response token
    */
   getResponse: () => string;
+
+  /**
+   * Load the script without rendering, for `explicit` widgets
+   * @returns Resolves when the script is ready; rejects with a `ReCaptchaError`
+   */
+  load: () => Promise<void>;
+
+  /**
+   * Load the script if needed and render an `explicit` widget. Does nothing
+   * if the widget is rendered.
+   * @returns Resolves once rendered; rejects with a `ReCaptchaError`
+   */
+  render: () => Promise<void>;
+
+  /**
+   * Remove the widget and reject pending `executeAsync` calls with
+   * `unmounted`. `render()` can render it again.
+   */
+  destroy: () => Promise<void>;
+
+  /**
+   * Current token, or null before verification and after expiry or reset
+   */
+  token: string | null;
+
+  /**
+   * When the current token was issued, in milliseconds since the epoch
+   */
+  verifiedAt: number | null;
+
+  /**
+   * When the current token expires, in milliseconds since the epoch
+   */
+  expiresAt: number | null;
+}
+
+/**
+ * Parameters passed to `grecaptcha.render`
+ */
+export interface ReCaptchaRenderParameters {
+  sitekey: string;
+  theme?: ReCaptchaTheme;
+  size?: ReCaptchaSize;
+  tabindex?: number;
+  badge?: ReCaptchaBadgePosition;
+  callback?: (token: string) => void;
+  'expired-callback'?: () => void;
+  'error-callback'?: (error: string) => void;
 }
 
 /**
@@ -162,19 +481,115 @@ export interface WindowWithReCaptcha extends Window {
     ready: (callback: () => void) => void;
     render: (
       container: string | HTMLElement,
-      parameters: {
-        sitekey: string;
-        theme?: ReCaptchaTheme;
-        size?: ReCaptchaSize;
-        tabindex?: number;
-        badge?: ReCaptchaBadgePosition;
-        callback?: (token: string) => void;
-        'expired-callback'?: () => void;
-        'error-callback'?: (error: string) => void;
-      }
+      parameters: ReCaptchaRenderParameters
     ) => number;
     reset: (widgetId?: number) => void;
     execute: (widgetId?: number) => void;
     getResponse: (widgetId?: number) => string;
   };
 }
+
+/**
+ * Error codes returned by the siteverify endpoint
+ * @see https://developers.google.com/recaptcha/docs/verify#error_code_reference
+ */
+export type ReCaptchaSiteverifyErrorCode =
+  | 'missing-input-secret'
+  | 'invalid-input-secret'
+  | 'missing-input-response'
+  | 'invalid-input-response'
+  | 'bad-request'
+  | 'timeout-or-duplicate';
+
+/**
+ * Response returned by Google's siteverify endpoint for reCAPTCHA v2
+ */
+export interface ReCaptchaSiteverifyResponse {
+  /**
+   * Whether the token was valid for this site
+   */
+  success: boolean;
+
+  /**
+   * Timestamp of the challenge load (ISO format yyyy-MM-dd'T'HH:mm:ssZZ)
+   */
+  challenge_ts?: string;
+
+  /**
+   * Hostname of the site where the reCAPTCHA was solved
+   */
+  hostname?: string;
+
+  /**
+   * Package name of the app where the reCAPTCHA was solved (Android only)
+   */
+  apk_package_name?: string;
+
+  /**
+   * Error codes reported by Google, empty when verification succeeded
+   */
+  'error-codes': ReCaptchaSiteverifyErrorCode[];
+}
+
+/**
+ * Reasons a token can be rejected by server-side verification
+ *
+ * - `siteverify-failed`: Google rejected the token (see `error-codes`)
+ * - `hostname-mismatch`: solved on a hostname outside the allowlist
+ * - `apk-package-name-mismatch`: solved in an Android app outside the allowlist
+ * - `challenge-timestamp-invalid`: `challenge_ts` is missing or unparseable
+ * - `token-too-old`: `challenge_ts` is older than the configured max age
+ * - `replayed`: the token was already used on this server
+ */
+export type ReCaptchaRejectionReason =
+  | 'siteverify-failed'
+  | 'hostname-mismatch'
+  | 'apk-package-name-mismatch'
+  | 'challenge-timestamp-invalid'
+  | 'token-too-old'
+  | 'replayed';
+
+/**
+ * Policy applied to a successful siteverify response
+ */
+export interface ReCaptchaVerificationPolicy {
+  /**
+   * Hostnames the token may have been solved on. Only applies to web
+   * tokens; unchecked when omitted.
+   * Strings are compared case-insensitively; RegExps are tested as-is
+   */
+  allowedHostnames?: Array<string | RegExp>;
+
+  /**
+   * Android package names the token may have been solved in. Only applies
+   * to Android tokens; unchecked when omitted.
+   */
+  allowedApkPackageNames?: string[];
+
+  /**
+   * Maximum age of the token in milliseconds, measured from `challenge_ts`
+   */
+  maxTokenAgeMs?: number;
+}
+
+/**
+ * Outcome of verifying a token against siteverify and a verification policy
+ */
+export type ReCaptchaVerificationResult =
+  | {
+      success: true;
+      response: ReCaptchaSiteverifyResponse;
+    }
+  | {
+      success: false;
+      reason: ReCaptchaRejectionReason;
+      response: ReCaptchaSiteverifyResponse;
+    };
+
+/**
+ * A verification result that passed every check
+ */
+export type ReCaptchaVerifiedResult = Extract<
+  ReCaptchaVerificationResult,
+  { success: true }
+>;
@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useRef, type RefObject } from 'react';
+
+/**
+ * Options for useExecuteOnSubmit
+ */
+interface ExecuteOnSubmitOptions {
+  /**
+   * Whether to intercept submits (invisible widgets only)
+   */
+  enabled: boolean;
+
+  /**
+   * The token the form field holds, or an empty string
+   */
+  getToken: () => string;
+
+  /**
+   * Empty the form field and reset the widget, so the next challenge
+   * produces a new token
+   */
+  clearToken: () => void;
+
+  /**
+   * Run the challenge
+   */
+  execute: () => Promise<string>;
+
+  /**
+   * Store the token in the form; call `resubmit` once the form library sees
+   * it. The resubmit goes through untouched.
+   */
+  onToken: (token: string, resubmit: () => void) => void;
+
+  /**
+   * Report a failed challenge
+   */
+  onError: (error: unknown) => void;
+}
+
+/**
+ * Hold back submits of the form around `containerRef` until an invisible
+ * widget has produced a token, then submit again. The form library's own
+ * submit handler only ever sees submits that carry a token, and never the
+ * same token twice: a token is spent once a submit carried it, even if the
+ * handler then failed.
+ *
+ * Listens on the `<form>` element itself, so it runs before React's
+ * `onSubmit`, which is dispatched from the root.
+ */
+export const useExecuteOnSubmit = (
+  containerRef: RefObject<HTMLElement | null>,
+  options: ExecuteOnSubmitOptions
+): void => {
+  // Read at submit time so callers can pass inline functions
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // The last token a submit went through with
+  const submittedTokenRef = useRef<string | null>(null);
+
+  const { enabled } = options;
+
+  useEffect(() => {
+    const form = containerRef.current?.closest('form');
+    if (!enabled || !form) return;
+
+    let executing = false;
+    let resubmitting = false;
+
+    const onSubmit = (event: SubmitEvent) => {
+      if (resubmitting) return;
+
+      const token = optionsRef.current.getToken();
+      if (token && token !== submittedTokenRef.current) {
+        submittedTokenRef.current = token;
+        return;
+      }
+
+      event.preventDefault();
+      event.stopPropagation();
+      if (executing) return;
+
+      const submitter = event.submitter;
+      const resubmit = (freshToken: string) => {
+        submittedTokenRef.current = freshToken;
+        resubmitting = true;
+        try {
+          if (typeof form.requestSubmit === 'function') {
+            form.requestSubmit(submitter ?? undefined);
+          } else if (submitter) {
+            submitter.click();
+          }
+        } finally {
+          resubmitting = false;
+        }
+      };
+
+      executing = true;
+      if (token) {
+        optionsRef.current.clearToken();
+      }
+      optionsRef.current
+        .execute()
+        .then(
+          (freshToken) =>
+            optionsRef.current.onToken(freshToken, () => resubmit(freshToken)),
+          (err) => optionsRef.current.onError(err)
+        )
+        .finally(() => {
+          executing = false;
+        });
+    };
+
+    form.addEventListener('submit', onSubmit);
+    return () => form.removeEventListener('submit', onSubmit);
+  }, [containerRef, enabled]);
+};
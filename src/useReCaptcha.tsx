@@ -8,17 +8,33 @@ import {
   type RefObject
 } from 'react';
 import {
+  ReCaptchaExecuteOptions,
   ReCaptchaOnErrorCallback,
   ReCaptchaOnExpiredCallback,
+  ReCaptchaOnExpiringSoonCallback,
+  ReCaptchaOnStatusChangeCallback,
   ReCaptchaOnVerifyCallback,
   ReCaptchaProps,
 } from './types';
-import { getGrecaptcha, loadReCaptchaScript, onReCaptchaLoad } from './utils';
+import { ReCaptchaError, isReCaptchaError, toReCaptchaError } from './errors';
+import { ReCaptchaStatus, canTransitionReCaptchaStatus } from './status';
+import { useReCaptchaConsentState } from './consent';
+import { useReCaptchaContext } from './ReCaptchaProvider';
+import {
+  RECAPTCHA_TOKEN_LIFETIME_MS,
+  getGrecaptcha,
+  getScriptGeneration,
+  getScriptLoadingState,
+  loadReCaptchaScript,
+  onReCaptchaLoad,
+  retryReCaptchaLoad,
+  subscribeToReCaptchaReload
+} from './utils';
 
 /**
  * Hook return type with reCAPTCHA instance and state
  */
-interface UseReCaptchaReturn {
+export interface UseReCaptchaReturn {
   /**
    * Reference to the reCAPTCHA container element
    */
@@ -38,9 +54,11 @@ interface UseReCaptchaReturn {
    * const token = await executeAsync();
    * ```
    *
-   * Only works for invisible reCAPTCHA.
+   * Only works for invisible reCAPTCHA. Rejects with a `ReCaptchaError`.
+   * Pass `timeoutMs` to override `executeTimeoutMs` and `signal` to cancel.
+   * Loads and renders a widget still waiting for its `loadStrategy`.
    */
-  executeAsync: () => Promise<string>;
+  executeAsync: (options?: ReCaptchaExecuteOptions) => Promise<string>;
   
   /**
    * Reset the reCAPTCHA widget
@@ -64,15 +82,102 @@ interface UseReCaptchaReturn {
   isReady: boolean;
   
   /**
-   * Error message if the reCAPTCHA script failed to load
+   * Error if the reCAPTCHA script failed to load or the widget failed
+   */
+  error: ReCaptchaError | null;
+
+  /**
+   * Where the widget is in its lifecycle, e.g. `executing` or `verified`
+   */
+  status: ReCaptchaStatus;
+
+  /**
+   * Current token, or null before verification and after expiry or reset
+   */
+  token: string | null;
+
+  /**
+   * When the current token was issued, in milliseconds since the epoch
+   */
+  verifiedAt: number | null;
+
+  /**
+   * When the current token expires, in milliseconds since the epoch
+   */
+  expiresAt: number | null;
+
+  /**
+   * Whether consent to load Google's script was given
+   */
+  hasConsent: boolean;
+
+  /**
+   * Grant consent (e.g. from a placeholder's "allow" button); loading then
+   * resumes. With a provider and no `consent` option, grants it for every
+   * widget below the provider.
+   */
+  grantConsent: () => void;
+
+  /**
+   * Recover from a failure, e.g. from a "Try again" button: loads the
+   * script again after a failed load, or resets or re-renders a widget that
+   * failed on its own. Failures are reported through `error` and
+   * `onError`, so the returned Promise never rejects.
+   */
+  retry: () => Promise<void>;
+
+  /**
+   * Load the script without rendering (for `autoLoad: false`)
+   * @returns Resolves when the script is ready; rejects with a `ReCaptchaError`
+   * (`consent-required` before consent is given)
    */
-  error: string | null;
+  load: () => Promise<void>;
+
+  /**
+   * Load the script if needed and render the widget into `containerRef`
+   * (for `autoLoad: false`). Does nothing if the widget is rendered.
+   * @returns Resolves once rendered; rejects with a `ReCaptchaError`
+   */
+  render: () => Promise<void>;
+
+  /**
+   * Remove the widget and reject pending `executeAsync` calls with
+   * `unmounted`. `render()` can render it again.
+   */
+  destroy: () => Promise<void>;
+}
+
+/**
+ * A pending `executeAsync` call
+ */
+interface PendingExecution {
+  resolve: (token: string) => void;
+  reject: (error: ReCaptchaError) => void;
+
+  /**
+   * Set when a previous challenge left a token in the widget, which must be
+   * reset before this call's challenge runs
+   */
+  afterPreviousChallenge?: boolean;
 }
 
+/**
+ * Raised when the script is needed before consent was given
+ */
+const createConsentRequiredError = () =>
+  new ReCaptchaError(
+    'consent-required',
+    'reCAPTCHA cannot load before consent is given.'
+  );
+
 /**
  * Hook options for useReCaptcha
  */
-interface UseReCaptchaOptions extends Omit<ReCaptchaProps, 'id' | 'className'> {
+export interface UseReCaptchaOptions
+  extends Omit<
+    ReCaptchaProps,
+    'id' | 'className' | 'inputName' | 'consentPlaceholder'
+  > {
   /**
    * Whether to render the reCAPTCHA widget automatically
    * @default true
@@ -107,20 +212,45 @@ interface UseReCaptchaOptions extends Omit<ReCaptchaProps, 'id' | 'className'> {
  * );
  * ```
  */
-export const useReCaptcha = ({
-  siteKey,
-  theme = 'light',
-  size = 'normal',
-  tabIndex = 0,
-  badge = 'bottomright',
-  language,
-  onVerify,
-  onExpired,
-  onError,
-  onLoad,
-  autoLoad = true,
-  hideBadge = false
-}: UseReCaptchaOptions): UseReCaptchaReturn => {
+export const useReCaptcha = (options: UseReCaptchaOptions): UseReCaptchaReturn => {
+  // Fall back to the nearest ReCaptchaProvider, then to the built-in defaults
+  const context = useReCaptchaContext();
+  const {
+    siteKey = context?.siteKey,
+    theme = context?.theme ?? 'light',
+    size = context?.size ?? 'normal',
+    tabIndex = context?.tabIndex ?? 0,
+    badge = context?.badge ?? 'bottomright',
+    language = context?.language,
+    onVerify,
+    onExpired,
+    onError,
+    onLoad,
+    onExpiringSoon,
+    onStatusChange,
+    expiringSoonThresholdMs = 30_000,
+    autoRefresh = false,
+    autoLoad = true,
+    loadStrategy = context?.loadStrategy ?? 'eager',
+    hideBadge = context?.hideBadge ?? false,
+    nonce = context?.nonce,
+    executeTimeoutMs = 120_000,
+    executeConcurrency = 'share',
+    scriptOptions,
+    consent,
+    onConsentGranted
+  } = options;
+  const loadScript = context?.load;
+
+  // A `consent` option overrides the provider's
+  const ownConsent = useReCaptchaConsentState(consent, onConsentGranted);
+  const { hasConsent, grantConsent } =
+    consent === undefined && context ? context : ownConsent;
+
+  // Read at load time so inline objects don't retrigger the load effect
+  const scriptOptionsRef = useRef(scriptOptions);
+  scriptOptionsRef.current = scriptOptions;
+
   // Create refs for DOM element and widget ID
   const containerRef = useRef<HTMLDivElement>(null);
   const widgetIdRef = useRef<number | null>(null);
@@ -128,35 +258,117 @@ export const useReCaptcha = ({
   // Track loading and ready state
   const [isLoaded, setIsLoaded] = useState<boolean>(false);
   const [isReady, setIsReady] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ReCaptchaError | null>(null);
+
+  // The current token and its lifetime
+  const [tokenState, setTokenState] = useState<{
+    token: string;
+    verifiedAt: number;
+    expiresAt: number;
+  } | null>(null);
+
+  // The token `autoRefresh` is replacing. Google's widget forgets it when
+  // the refresh starts, but it stays valid until the new one arrives.
+  const refreshingTokenRef = useRef<string | null>(null);
   
   // Store callbacks in refs to avoid dependency changes
   const onVerifyRef = useRef<ReCaptchaOnVerifyCallback | undefined>(onVerify);
   const onExpiredRef = useRef<ReCaptchaOnExpiredCallback | undefined>(onExpired);
   const onErrorRef = useRef<ReCaptchaOnErrorCallback | undefined>(onError);
   const onLoadRef = useRef<(() => void) | undefined>(onLoad);
+  const onExpiringSoonRef = useRef<ReCaptchaOnExpiringSoonCallback | undefined>(
+    onExpiringSoon
+  );
+  const onStatusChangeRef = useRef<ReCaptchaOnStatusChangeCallback | undefined>(
+    onStatusChange
+  );
 
-  // Store resolve/reject for executeAsync
-  const pendingPromiseRef = useRef<{
-    resolve: (token: string) => void;
-    reject: (error: string) => void;
-  } | null>(null);
+  // Lifecycle status; the ref lets callbacks check the current value
+  const [status, setStatus] = useState<ReCaptchaStatus>('idle');
+  const statusRef = useRef<ReCaptchaStatus>('idle');
+
+  /** Move to another status, ignoring transitions the lifecycle forbids. */
+  const transition = useCallback((next: ReCaptchaStatus) => {
+    const previous = statusRef.current;
+    if (previous === next || !canTransitionReCaptchaStatus(previous, next)) {
+      return;
+    }
+    statusRef.current = next;
+    setStatus(next);
+    onStatusChangeRef.current?.(next, previous);
+  }, []);
 
   /**
-   * When `executeAsync` is used we start a timeout so callers are not left with
-   * a Promise that hangs forever if Google's script never responds.  The timer
-   * id is stored in a ref so we can cancel it once the widget actually returns
-   * a result (verify, expired, or error).
+   * Pending `executeAsync` calls, oldest first. Each entry removes itself
+   * (and its timeout and abort listener) when settled, so every caller's
+   * promise settles exactly once. The oldest entry owns the challenge that
+   * is running; in `share` mode the others wait on the same challenge, in
+   * `queue` mode each one runs its own challenge in turn.
    */
-  const executeTimeoutRef = useRef<number | null>(null);
+  const pendingExecutionsRef = useRef<PendingExecution[]>([]);
 
-  /** Clears the pending timeout, if any. */
-  const clearExecuteTimeout = useCallback(() => {
-    if (executeTimeoutRef.current !== null) {
-      clearTimeout(executeTimeoutRef.current);
-      executeTimeoutRef.current = null;
-    }
+  // Read when the widget answers, which may be after the option changed
+  const executeConcurrencyRef = useRef(executeConcurrency);
+  executeConcurrencyRef.current = executeConcurrency;
+
+  /** Reject every pending call, e.g. when no challenge can run. */
+  const rejectPendingExecutions = useCallback((pendingError: ReCaptchaError) => {
+    pendingExecutionsRef.current
+      .slice()
+      .forEach((pending) => pending.reject(pendingError));
   }, []);
+
+  /** Start the challenge for the oldest pending call. */
+  const runPendingChallenge = useCallback(() => {
+    const [pending] = pendingExecutionsRef.current;
+    if (!pending) return;
+
+    const grecaptcha = getGrecaptcha();
+    if (!grecaptcha || widgetIdRef.current === null) {
+      rejectPendingExecutions(
+        new ReCaptchaError('not-ready', 'reCAPTCHA not ready.')
+      );
+      return;
+    }
+
+    try {
+      // A token from the previous challenge would be returned again
+      if (pending.afterPreviousChallenge) {
+        grecaptcha.reset(widgetIdRef.current);
+      }
+      transition('executing');
+      grecaptcha.execute(widgetIdRef.current);
+    } catch (err) {
+      const executeError = toReCaptchaError(err, 'widget-error');
+      setError(executeError);
+      transition('error');
+      onErrorRef.current?.(executeError);
+      rejectPendingExecutions(executeError);
+    }
+  }, [rejectPendingExecutions, transition]);
+
+  /**
+   * Hand the widget's answer to the calls waiting on the running challenge:
+   * all of them in `share` mode, the oldest one in `queue` mode, whose
+   * successor then starts its own challenge.
+   */
+  const settlePendingExecutions = useCallback((
+    settle: (pending: PendingExecution) => void
+  ) => {
+    const executions = pendingExecutionsRef.current;
+    if (executions.length === 0) return;
+
+    if (executeConcurrencyRef.current === 'queue') {
+      settle(executions[0]);
+      if (pendingExecutionsRef.current.length > 0) {
+        pendingExecutionsRef.current[0].afterPreviousChallenge = true;
+        // Leave Google's callback before starting the next challenge
+        window.setTimeout(runPendingChallenge, 0);
+      }
+    } else {
+      executions.slice().forEach(settle);
+    }
+  }, [runPendingChallenge]);
   
   // Update callback refs when props change
   useEffect(() => {
@@ -164,7 +376,9 @@ export const useReCaptcha = ({
     onExpiredRef.current = onExpired;
     onErrorRef.current = onError;
     onLoadRef.current = onLoad;
-  }, [onVerify, onExpired, onError, onLoad]);
+    onExpiringSoonRef.current = onExpiringSoon;
+    onStatusChangeRef.current = onStatusChange;
+  }, [onVerify, onExpired, onError, onLoad, onExpiringSoon, onStatusChange]);
   
   // Add style to hide badge if requested
   useEffect(() => {
@@ -175,26 +389,45 @@ export const useReCaptcha = ({
       if (!style) {
         style = document.createElement('style');
         style.id = 'recaptcha-badge-style';
+        // Allow the style under a nonce-based Content-Security-Policy
+        if (nonce) {
+          style.nonce = nonce;
+        }
+        // textContent is not a Trusted Types sink, unlike innerHTML
+        style.textContent = '.grecaptcha-badge { visibility: hidden !important; }';
         document.head.appendChild(style);
       }
       
-      style.innerHTML = '.grecaptcha-badge { visibility: hidden !important; }';
-      
       return () => {
         // Remove style when component unmounts
         if (widgetIdRef.current !== null && getGrecaptcha()) {
           getGrecaptcha()?.reset(widgetIdRef.current);
         }
-        // Also clear any pending executeAsync timeout
-        clearExecuteTimeout();
       };
     }
-  }, [hideBadge, clearExecuteTimeout]);
+  }, [hideBadge, nonce]);
   
-  // Render the reCAPTCHA widget
-  const renderReCaptcha = useCallback(() => {
+  // Render the reCAPTCHA widget; returns the error if it didn't render
+  const renderReCaptcha = useCallback((): ReCaptchaError | null => {
     const grecaptcha = getGrecaptcha();
-    if (!grecaptcha || !containerRef.current) return;
+    if (!grecaptcha || !containerRef.current) {
+      return new ReCaptchaError(
+        'not-ready',
+        'reCAPTCHA script or container element is not available.'
+      );
+    }
+
+    if (!siteKey) {
+      const missingKeyError = new ReCaptchaError(
+        'render-failed',
+        'A siteKey is required, either as a prop or on ReCaptchaProvider.'
+      );
+      setError(missingKeyError);
+      transition('error');
+      onErrorRef.current?.(missingKeyError);
+      rejectPendingExecutions(missingKeyError);
+      return missingKeyError;
+    }
     
     try {
       // Reset widget ID if it already exists
@@ -210,165 +443,565 @@ export const useReCaptcha = ({
         tabindex: tabIndex,
         badge,
         callback: (token: string) => {
+          refreshingTokenRef.current = null;
+          const verifiedAt = Date.now();
+          setTokenState({
+            token,
+            verifiedAt,
+            expiresAt: verifiedAt + RECAPTCHA_TOKEN_LIFETIME_MS
+          });
+          transition('verified');
           onVerifyRef.current?.(token);
 
-          // Resolve pending promise if executeAsync was used
-          if (pendingPromiseRef.current) {
-            pendingPromiseRef.current.resolve(token);
-            pendingPromiseRef.current = null;
-          }
-          clearExecuteTimeout();
+          // Resolve pending promises if executeAsync was used
+          settlePendingExecutions((pending) => pending.resolve(token));
         },
         'expired-callback': () => {
+          refreshingTokenRef.current = null;
+          setTokenState(null);
+          transition('expired');
           onExpiredRef.current?.();
 
-          // Reject pending promise on expiration
-          if (pendingPromiseRef.current) {
-            pendingPromiseRef.current.reject('expired');
-            pendingPromiseRef.current = null;
-          }
-          clearExecuteTimeout();
+          // Reject pending promises on expiration
+          settlePendingExecutions((pending) =>
+            pending.reject(
+              new ReCaptchaError('expired', 'reCAPTCHA token expired.')
+            )
+          );
         },
         'error-callback': (errorMsg: string) => {
-          onErrorRef.current?.(errorMsg);
-
-          // Reject pending promise on error
-          if (pendingPromiseRef.current) {
-            pendingPromiseRef.current.reject(errorMsg);
-            pendingPromiseRef.current = null;
+          const widgetError = new ReCaptchaError(
+            'widget-error',
+            errorMsg || 'reCAPTCHA widget reported an error.'
+          );
+          // A failed refresh leaves no valid token behind
+          if (refreshingTokenRef.current !== null) {
+            refreshingTokenRef.current = null;
+            setTokenState(null);
           }
-          clearExecuteTimeout();
+          setError(widgetError);
+          transition('error');
+          onErrorRef.current?.(widgetError);
+
+          // Reject pending promises on error
+          settlePendingExecutions((pending) => pending.reject(widgetError));
         }
       });
       
       setIsReady(true);
+      transition('ready');
       onLoadRef.current?.();
+
+      // Run `executeAsync` calls that waited for the widget to load
+      runPendingChallenge();
+      return null;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      setError(errorMessage);
-      onErrorRef.current?.(errorMessage);
+      const renderError = toReCaptchaError(err, 'render-failed');
+      setError(renderError);
+      transition('error');
+      onErrorRef.current?.(renderError);
+      rejectPendingExecutions(renderError);
+      return renderError;
     }
-  }, [siteKey, theme, size, tabIndex, badge, clearExecuteTimeout]); // Added clearExecuteTimeout to dependency array
+  }, [
+    siteKey,
+    theme,
+    size,
+    tabIndex,
+    badge,
+    settlePendingExecutions,
+    runPendingChallenge,
+    rejectPendingExecutions,
+    transition
+  ]);
   
+  // Bumped when the script is reloaded for another language or a retry; the
+  // widget rendered with the previous grecaptcha is gone and must render again
+  const [scriptGeneration, setScriptGeneration] = useState(getScriptGeneration);
+
+  useEffect(() => {
+    return subscribeToReCaptchaReload((generation) => {
+      widgetIdRef.current = null;
+      setIsReady(false);
+      setIsLoaded(false);
+      setError(null);
+      setTokenState(null);
+      // Explicit and not yet loaded widgets wait in `idle`
+      transition(
+        autoLoad && statusRef.current !== 'idle' ? 'loading-script' : 'idle'
+      );
+      setScriptGeneration(generation);
+    });
+  }, [autoLoad, transition]);
+
+  // Whether `loadStrategy` (or an `executeAsync` call) asked for the script
+  const [loadRequested, setLoadRequested] = useState(loadStrategy === 'eager');
+
+  // Wait for the moment `loadStrategy` picks
+  useEffect(() => {
+    if (!autoLoad || loadRequested || typeof window === 'undefined') return;
+
+    const requestLoad = () => setLoadRequested(true);
+    const container = containerRef.current;
+
+    // Nothing to save once the script is on the page
+    if (loadStrategy === 'eager' || getScriptLoadingState() === 'loaded') {
+      requestLoad();
+      return;
+    }
+
+    if (loadStrategy === 'idle') {
+      if (typeof window.requestIdleCallback === 'function') {
+        const idleId = window.requestIdleCallback(requestLoad);
+        return () => window.cancelIdleCallback(idleId);
+      }
+      // Safari has no requestIdleCallback
+      const timeoutId = window.setTimeout(requestLoad, 1);
+      return () => clearTimeout(timeoutId);
+    }
+
+    if (loadStrategy === 'visible') {
+      if (!container || typeof IntersectionObserver === 'undefined') {
+        requestLoad();
+        return;
+      }
+      const observer = new IntersectionObserver((entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          requestLoad();
+        }
+      });
+      observer.observe(container);
+      return () => observer.disconnect();
+    }
+
+    // `interaction`: without a form, any focus or input on the page counts
+    const target: EventTarget | null =
+      container?.closest('form') ?? container?.ownerDocument ?? null;
+    if (!target) {
+      requestLoad();
+      return;
+    }
+    target.addEventListener('focusin', requestLoad);
+    target.addEventListener('input', requestLoad);
+    return () => {
+      target.removeEventListener('focusin', requestLoad);
+      target.removeEventListener('input', requestLoad);
+    };
+  }, [autoLoad, loadRequested, loadStrategy]);
+
+  // Language this widget last asked the loader for
+  const requestedLanguageRef = useRef<string | undefined>(undefined);
+
   // Load the reCAPTCHA script and render the widget
   useEffect(() => {
-    if (!autoLoad || typeof window === 'undefined') return;
-    
-    loadReCaptchaScript(language)
+    if (
+      !autoLoad ||
+      !loadRequested ||
+      !hasConsent ||
+      typeof window === 'undefined'
+    ) {
+      return;
+    }
+
+    // Re-runs for other reasons (e.g. another widget switched language) use
+    // whichever script is loaded instead of switching it back
+    const state = getScriptLoadingState();
+    const keepLoadedLanguage =
+      requestedLanguageRef.current === language &&
+      (state === 'loading' || state === 'loaded');
+    requestedLanguageRef.current = language;
+
+    // Ignore results that arrive after this run was cleaned up
+    let cancelled = false;
+    transition('loading-script');
+
+    // A provider adds its script options and tracks the load when present
+    const loadOptions = {
+      ...scriptOptionsRef.current,
+      language: keepLoadedLanguage ? undefined : language,
+      nonce
+    };
+    (loadScript ? loadScript(loadOptions) : loadReCaptchaScript(loadOptions))
       .then(() => {
+        if (cancelled) return;
         setIsLoaded(true);
+        transition('rendering');
         
         // If grecaptcha is available, render the widget
         onReCaptchaLoad(() => {
-          if (containerRef.current) {
+          if (!cancelled && containerRef.current) {
             renderReCaptcha();
           }
         });
       })
       .catch((err) => {
-        const errorMessage = err instanceof Error ? err.message : String(err);
+        if (cancelled) return;
+
         // Swallow intermittent reCAPTCHA internal **timeout** noise so it
         // doesn’t surface as an error in the host app.  All other errors
         // (network, ad-blocker, etc.) are still bubbled up.
-        const lower = errorMessage.toLowerCase();
-        const isInternalTimeout =
-          lower.includes('recaptcha') && lower.includes('timeout');
+        if (!isReCaptchaError(err)) {
+          const message = err instanceof Error ? err.message : String(err);
+          const lower = message.toLowerCase();
+          const isInternalTimeout =
+            lower.includes('recaptcha') && lower.includes('timeout');
 
-        if (isInternalTimeout) {
-          return; // ignore this specific noise
+          if (isInternalTimeout) {
+            return; // ignore this specific noise
+          }
         }
 
-        setError(errorMessage);
-        onErrorRef.current?.(errorMessage);
+        const loadError = toReCaptchaError(err, 'script-load-failed');
+        setError(loadError);
+        transition('error');
+        onErrorRef.current?.(loadError);
+        rejectPendingExecutions(loadError);
       });
       
     return () => {
+      cancelled = true;
+
       // Clean up widget when component unmounts
       // 1️⃣ Clear any DOM that reCAPTCHA injected to avoid later
       //    access attempts inside Google’s script.
       if (containerRef.current) {
-        containerRef.current.innerHTML = '';
+        containerRef.current.textContent = '';
       }
 
-      // 2️⃣ Reject any pending executeAsync promise so caller
-      //    is not left hanging after unmount.
-      if (pendingPromiseRef.current) {
-        pendingPromiseRef.current.reject('ReCaptcha component unmounted');
-        pendingPromiseRef.current = null;
-      }
-      clearExecuteTimeout();
+      // 2️⃣ Reject every pending executeAsync promise so callers
+      //    are not left hanging after unmount.
+      rejectPendingExecutions(
+        new ReCaptchaError('unmounted', 'ReCaptcha component unmounted.')
+      );
 
       // 3️⃣ Finally, ask grecaptcha to reset the widget (safe-guard).
       if (widgetIdRef.current !== null && getGrecaptcha()) {
         getGrecaptcha()?.reset(widgetIdRef.current);
       }
     };
-  }, [autoLoad, language, renderReCaptcha, clearExecuteTimeout]);
+  }, [
+    autoLoad,
+    loadRequested,
+    hasConsent,
+    language,
+    nonce,
+    loadScript,
+    renderReCaptcha,
+    rejectPendingExecutions,
+    transition,
+    scriptGeneration
+  ]);
   
+  // Load the script with this widget's configuration, without rendering
+  const requestScript = useCallback((): Promise<void> => {
+    const loadOptions = { ...scriptOptionsRef.current, language, nonce };
+    const request = loadScript
+      ? loadScript(loadOptions)
+      : loadReCaptchaScript(loadOptions);
+
+    return request.then(
+      () => setIsLoaded(true),
+      (err) => {
+        const loadError = toReCaptchaError(err, 'script-load-failed');
+        setError(loadError);
+        transition('error');
+        onErrorRef.current?.(loadError);
+        throw loadError;
+      }
+    );
+  }, [loadScript, language, nonce, transition]);
+
+  // Explicit mode: load the script ahead of rendering
+  const load = useCallback((): Promise<void> => {
+    if (widgetIdRef.current !== null) return Promise.resolve();
+    if (!hasConsent) return Promise.reject(createConsentRequiredError());
+
+    transition('loading-script');
+    return requestScript().then(() => transition('idle'));
+  }, [hasConsent, requestScript, transition]);
+
+  // The `render()` call in flight; later calls share it instead of rendering
+  // into the same container twice
+  const renderPromiseRef = useRef<Promise<void> | null>(null);
+
+  // Explicit mode: load the script if needed and render the widget
+  const render = useCallback((): Promise<void> => {
+    if (widgetIdRef.current !== null) return Promise.resolve();
+    if (!hasConsent) return Promise.reject(createConsentRequiredError());
+    if (renderPromiseRef.current) return renderPromiseRef.current;
+
+    const promise = (async () => {
+      transition('loading-script');
+      await requestScript();
+      await new Promise<void>((resolve) => onReCaptchaLoad(resolve));
+
+      transition('rendering');
+      const renderError = renderReCaptcha();
+      if (renderError) {
+        throw renderError;
+      }
+    })().finally(() => {
+      if (renderPromiseRef.current === promise) {
+        renderPromiseRef.current = null;
+      }
+    });
+    renderPromiseRef.current = promise;
+    return promise;
+  }, [hasConsent, requestScript, renderReCaptcha, transition]);
+
+  // Explicit mode: remove the widget; `render()` can render it again
+  const destroy = useCallback((): Promise<void> => {
+    rejectPendingExecutions(
+      new ReCaptchaError('unmounted', 'reCAPTCHA widget was destroyed.')
+    );
+
+    // grecaptcha has no destroy API: reset the widget, then drop its DOM and
+    // ID so the container can be rendered into again
+    if (widgetIdRef.current !== null) {
+      try {
+        getGrecaptcha()?.reset(widgetIdRef.current);
+      } catch {
+        // The widget is going away; a failed reset changes nothing
+      }
+      widgetIdRef.current = null;
+    }
+    if (containerRef.current) {
+      containerRef.current.textContent = '';
+    }
+
+    setIsReady(false);
+    setTokenState(null);
+    transition('idle');
+    return Promise.resolve();
+  }, [rejectPendingExecutions, transition]);
+
+  // Revoked consent takes the widget down; it renders again once consent
+  // returns (or on `render()` in explicit mode)
+  useEffect(() => {
+    if (!hasConsent && widgetIdRef.current !== null) {
+      destroy();
+    }
+  }, [hasConsent, destroy]);
+
+  // Explicit widgets aren't owned by the load effect; clean them up here
+  useEffect(() => {
+    if (autoLoad) return;
+
+    return () => {
+      rejectPendingExecutions(
+        new ReCaptchaError('unmounted', 'ReCaptcha component unmounted.')
+      );
+      if (widgetIdRef.current !== null) {
+        getGrecaptcha()?.reset(widgetIdRef.current);
+        widgetIdRef.current = null;
+      }
+      if (containerRef.current) {
+        containerRef.current.textContent = '';
+      }
+    };
+  }, [autoLoad, rejectPendingExecutions]);
+
   // Execute the reCAPTCHA challenge programmatically
   const execute = useCallback(() => {
     const grecaptcha = getGrecaptcha();
     if (!grecaptcha || widgetIdRef.current === null) return;
     
     try {
+      transition('executing');
       grecaptcha.execute(widgetIdRef.current);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      setError(errorMessage);
-      onErrorRef.current?.(errorMessage);
+      const widgetError = toReCaptchaError(err, 'widget-error');
+      setError(widgetError);
+      transition('error');
+      onErrorRef.current?.(widgetError);
     }
-  }, []);
+  }, [transition]);
   
   // Reset the reCAPTCHA widget
   const reset = useCallback(() => {
     const grecaptcha = getGrecaptcha();
     if (!grecaptcha || widgetIdRef.current === null) return;
     
+    refreshingTokenRef.current = null;
+    setTokenState(null);
     try {
       grecaptcha.reset(widgetIdRef.current);
+      transition('ready');
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      setError(errorMessage);
-      onErrorRef.current?.(errorMessage);
+      const widgetError = toReCaptchaError(err, 'widget-error');
+      setError(widgetError);
+      transition('error');
+      onErrorRef.current?.(widgetError);
     }
-  }, []);
+  }, [transition]);
   
   // Execute the challenge and return a Promise that resolves with the token
-  const executeAsync = useCallback((): Promise<string> => {
+  const executeAsync = useCallback(({
+    timeoutMs = executeTimeoutMs,
+    signal
+  }: ReCaptchaExecuteOptions = {}): Promise<string> => {
     return new Promise((resolve, reject) => {
-      const grecaptcha = getGrecaptcha();
-      if (!grecaptcha || widgetIdRef.current === null) {
-        reject('reCAPTCHA not ready');
-        clearExecuteTimeout();
+      // Widgets that haven't rendered yet load on demand and run the
+      // challenge once rendered; explicit and failed widgets can't
+      const rendered = getGrecaptcha() && widgetIdRef.current !== null;
+      if (!rendered && (!autoLoad || statusRef.current === 'error')) {
+        reject(new ReCaptchaError('not-ready', 'reCAPTCHA not ready.'));
+        return;
+      }
+      if (!rendered && !hasConsent) {
+        reject(createConsentRequiredError());
         return;
       }
 
-      pendingPromiseRef.current = { resolve, reject };
+      if (signal?.aborted) {
+        reject(
+          new ReCaptchaError('aborted', 'reCAPTCHA execution was aborted.', {
+            cause: signal.reason
+          })
+        );
+        return;
+      }
+
+      let timeoutId: number | null = null;
+
+      // Whatever settles the promise also drops the entry, its timeout and
+      // its abort listener
+      const cleanup = () => {
+        pendingExecutionsRef.current = pendingExecutionsRef.current.filter(
+          (entry) => entry !== pending
+        );
+        if (timeoutId !== null) {
+          clearTimeout(timeoutId);
+        }
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const pending: PendingExecution = {
+        resolve: (token) => {
+          cleanup();
+          resolve(token);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        }
+      };
+
+      // Give up on this call. If nobody else waits on the running challenge,
+      // reset the widget so a late token can't be mistaken for a new one and
+      // let the next queued call start its own.
+      const abandon = (abandonError: ReCaptchaError) => {
+        const ownsChallenge = pendingExecutionsRef.current[0] === pending;
+        pending.reject(abandonError);
+
+        const othersWaiting = pendingExecutionsRef.current.length > 0;
+        const sharing = executeConcurrencyRef.current === 'share';
+        if (!ownsChallenge || (sharing && othersWaiting)) return;
+
+        if (widgetIdRef.current !== null) {
+          getGrecaptcha()?.reset(widgetIdRef.current);
+          transition('ready');
+        }
+        runPendingChallenge();
+      };
+
+      const onAbort = () => {
+        abandon(
+          new ReCaptchaError('aborted', 'reCAPTCHA execution was aborted.', {
+            cause: signal?.reason
+          })
+        );
+      };
+
+      const startsChallenge = pendingExecutionsRef.current.length === 0;
+      pendingExecutionsRef.current = [...pendingExecutionsRef.current, pending];
+      signal?.addEventListener('abort', onAbort);
+
       /* ------------------------------------------------------------------
-       * Start a 10-second timeout.  If Google's script never responds,
-       * reject the promise so callers aren't left hanging forever.
+       * Start the timeout (`executeTimeoutMs`, 2 minutes by default).  If
+       * Google's script never responds, reject the promise so callers
+       * aren't left hanging forever.
        * ------------------------------------------------------------------ */
-      clearExecuteTimeout(); // just in case
-      executeTimeoutRef.current = window.setTimeout(() => {
-        if (pendingPromiseRef.current) {
-          pendingPromiseRef.current.reject('timeout');
-          pendingPromiseRef.current = null;
-        }
-        clearExecuteTimeout();
-      }, 120_000); // 2 min
+      if (Number.isFinite(timeoutMs)) {
+        timeoutId = window.setTimeout(() => {
+          abandon(
+            new ReCaptchaError(
+              'execute-timeout',
+              `reCAPTCHA did not return a token within ${timeoutMs} ms.`
+            )
+          );
+        }, timeoutMs);
+      }
 
+      // Later calls wait on the running challenge, or queue behind it
+      if (!rendered) {
+        setLoadRequested(true);
+      } else if (startsChallenge) {
+        runPendingChallenge();
+      }
+    });
+  }, [autoLoad, hasConsent, executeTimeoutMs, runPendingChallenge, transition]);
+
+  // Warn before the token expires and, for invisible widgets, quietly fetch
+  // a new one
+  const currentToken = tokenState?.token ?? null;
+  const expiresAt = tokenState?.expiresAt ?? null;
+  useEffect(() => {
+    if (expiresAt === null) return;
+
+    let expiryTimeoutId: number | undefined;
+    const timeoutId = window.setTimeout(() => {
+      onExpiringSoonRef.current?.(Math.max(0, expiresAt - Date.now()));
+
+      // Leave running challenges alone; they bring their own token
+      if (
+        !autoRefresh ||
+        size !== 'invisible' ||
+        pendingExecutionsRef.current.length > 0
+      ) {
+        return;
+      }
+
+      const grecaptcha = getGrecaptcha();
+      if (!grecaptcha || widgetIdRef.current === null) return;
       try {
+        // The old token stays valid, and stays the widget's token and
+        // response, until the new one arrives through `callback`
+        refreshingTokenRef.current = currentToken;
+        grecaptcha.reset(widgetIdRef.current);
         grecaptcha.execute(widgetIdRef.current);
+
+        // Google won't report the old token's expiry once it is reset, so
+        // expire it here if the refresh hasn't replaced it by then
+        expiryTimeoutId = window.setTimeout(() => {
+          if (refreshingTokenRef.current !== currentToken) return;
+          refreshingTokenRef.current = null;
+          setTokenState(null);
+          transition('expired');
+          onExpiredRef.current?.();
+        }, Math.max(0, expiresAt - Date.now()));
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : String(err);
-        pendingPromiseRef.current = null;
-        setError(errorMessage);
-        onErrorRef.current?.(errorMessage);
-        reject(errorMessage);
-        clearExecuteTimeout();
+        refreshingTokenRef.current = null;
+        setTokenState(null);
+        const refreshError = toReCaptchaError(err, 'widget-error');
+        setError(refreshError);
+        transition('error');
+        onErrorRef.current?.(refreshError);
       }
-    });
-  }, [clearExecuteTimeout]); // Added clearExecuteTimeout to dependency array
+    }, Math.max(0, expiresAt - expiringSoonThresholdMs - Date.now()));
+
+    return () => {
+      clearTimeout(timeoutId);
+      clearTimeout(expiryTimeoutId);
+    };
+  }, [
+    currentToken,
+    expiresAt,
+    expiringSoonThresholdMs,
+    autoRefresh,
+    size,
+    transition
+  ]);
 
   // Get the current response token
   const getResponse = useCallback(() => {
@@ -376,15 +1009,42 @@ export const useReCaptcha = ({
     if (!grecaptcha || widgetIdRef.current === null) return '';
     
     try {
-      return grecaptcha.getResponse(widgetIdRef.current) || '';
+      return (
+        grecaptcha.getResponse(widgetIdRef.current) ||
+        refreshingTokenRef.current ||
+        ''
+      );
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      setError(errorMessage);
-      onErrorRef.current?.(errorMessage);
+      const widgetError = toReCaptchaError(err, 'widget-error');
+      setError(widgetError);
+      transition('error');
+      onErrorRef.current?.(widgetError);
       return '';
     }
-  }, []);
+  }, [transition]);
   
+  // Retry after a failure. A failed load reloads the script, and the reload
+  // notification re-runs the load effect; with the script loaded, only the
+  // widget failed, so it is reset or rendered again.
+  const retry = useCallback((): Promise<void> => {
+    setError(null);
+    if (getScriptLoadingState() !== 'loaded' || !getGrecaptcha()) {
+      return retryReCaptchaLoad().catch(() => undefined);
+    }
+    if (statusRef.current !== 'error') return Promise.resolve();
+
+    if (widgetIdRef.current !== null) {
+      reset();
+    } else {
+      // Drop whatever a failed render left in the container
+      if (containerRef.current) {
+        containerRef.current.textContent = '';
+      }
+      renderReCaptcha();
+    }
+    return Promise.resolve();
+  }, [reset, renderReCaptcha]);
+
   return {
     containerRef,
     execute,
@@ -393,7 +1053,17 @@ export const useReCaptcha = ({
     getResponse,
     isLoaded,
     isReady,
-    error
+    error,
+    status,
+    token: tokenState?.token ?? null,
+    verifiedAt: tokenState?.verifiedAt ?? null,
+    expiresAt,
+    hasConsent,
+    grantConsent,
+    retry,
+    load,
+    render,
+    destroy
   };
 };
 
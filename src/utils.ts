@@ -1,16 +1,146 @@
 "use client";
 
-import { WindowWithReCaptcha } from "./types";
+import { ReCaptchaError, toReCaptchaError } from "./errors";
+import {
+  ReCaptchaResourceHint,
+  ReCaptchaRetryOptions,
+  ReCaptchaScriptOptions,
+  WindowWithReCaptcha,
+} from "./types";
 
 /**
  * Default URL for loading the Google reCAPTCHA script
  */
-const RECAPTCHA_SCRIPT_URL = "https://www.google.com/recaptcha/api.js";
+export const RECAPTCHA_SCRIPT_URL = "https://www.google.com/recaptcha/api.js";
+
+/**
+ * Origin serving the versioned scripts `api.js` pulls in
+ */
+const RECAPTCHA_STATIC_ORIGIN = "https://www.gstatic.com";
+
+/**
+ * How long a reCAPTCHA v2 token stays valid after the challenge is solved
+ */
+export const RECAPTCHA_TOKEN_LIFETIME_MS = 120_000;
+
+/**
+ * Build the URL of the reCAPTCHA script
+ * @param options Language, host, full URL and extra query parameters
+ * @returns The script URL
+ */
+export const buildReCaptchaScriptUrl = ({
+  language,
+  host,
+  scriptUrl,
+  params,
+}: ReCaptchaScriptOptions = {}): string => {
+  // Relative script URLs (e.g. a same-origin proxy) resolve against the page;
+  // on the server they stay relative
+  const isServer = typeof window === "undefined";
+  const url = new URL(
+    scriptUrl ??
+      (host ? `https://${host}/recaptcha/api.js` : RECAPTCHA_SCRIPT_URL),
+    isServer ? "http://relative.invalid" : window.location.href
+  );
+
+  if (params) {
+    Object.entries(params).forEach(([name, value]) => {
+      url.searchParams.set(name, value);
+    });
+  }
+
+  if (language) {
+    url.searchParams.set("hl", language);
+  }
+
+  if (isServer && url.origin === "http://relative.invalid") {
+    return `${url.pathname}${url.search}`;
+  }
+  return url.toString();
+};
+
+/**
+ * List the `<link>` hints that let the browser fetch Google's script early:
+ * `preconnect` and `dns-prefetch` for the script and gstatic origins, and a
+ * `preload` of the script URL the loader will request
+ * @param options Language and script options, as passed to the loader
+ * @returns The hints, in the order they should appear in `<head>`
+ */
+export const getReCaptchaResourceHints = (
+  options?: string | ReCaptchaScriptOptions
+): ReCaptchaResourceHint[] => {
+  const scriptOptions: ReCaptchaScriptOptions =
+    typeof options === "string" ? { language: options } : options ?? {};
+  const scriptUrl = buildReCaptchaScriptUrl(scriptOptions);
+
+  // A relative (same-origin) script needs no connection warm-up
+  const origins = /^https?:\/\//.test(scriptUrl)
+    ? [new URL(scriptUrl).origin, RECAPTCHA_STATIC_ORIGIN]
+    : [RECAPTCHA_STATIC_ORIGIN];
+
+  return [
+    ...origins.flatMap((origin): ReCaptchaResourceHint[] => [
+      { rel: "preconnect", href: origin },
+      { rel: "dns-prefetch", href: origin },
+    ]),
+    {
+      rel: "preload",
+      href: scriptUrl,
+      as: "script",
+      ...(scriptOptions.nonce ? { nonce: scriptOptions.nonce } : {}),
+    },
+  ];
+};
+
+/**
+ * The parts of the Trusted Types API used by the loader
+ */
+interface TrustedTypePolicyFactoryLike {
+  createPolicy: (
+    name: string,
+    rules: { createScriptURL: (input: string) => string }
+  ) => { createScriptURL: (input: string) => unknown };
+}
+
+/**
+ * Policies created so far, by name. Browsers may refuse to create the same
+ * policy twice, so each one is created once and reused.
+ */
+const trustedTypesPolicies = new Map<
+  string,
+  ReturnType<TrustedTypePolicyFactoryLike["createPolicy"]>
+>();
+
+/**
+ * Wrap the script URL in a TrustedScriptURL when a policy name is given and
+ * the browser supports Trusted Types
+ * @param url The script URL built by the loader
+ * @param policyName Name of the policy to create or reuse
+ * @returns A TrustedScriptURL, or the URL unchanged
+ */
+const toTrustedScriptUrl = (url: string, policyName?: string): string => {
+  const trustedTypes = (
+    window as Window & { trustedTypes?: TrustedTypePolicyFactoryLike }
+  ).trustedTypes;
+  if (!policyName || !trustedTypes) return url;
+
+  let policy = trustedTypesPolicies.get(policyName);
+  if (!policy) {
+    // The policy is private to the loader and only sees URLs it built
+    policy = trustedTypes.createPolicy(policyName, {
+      createScriptURL: (input) => input,
+    });
+    trustedTypesPolicies.set(policyName, policy);
+  }
+
+  // Assigning a TrustedScriptURL to `src` is what the policy is for
+  return policy.createScriptURL(url) as string;
+};
 
 /**
  * Script loading states
  */
-type ScriptLoadingState = "unloaded" | "loading" | "loaded" | "error";
+export type ScriptLoadingState = "unloaded" | "loading" | "loaded" | "error";
 
 /**
  * Global state to track reCAPTCHA script loading
@@ -19,6 +149,26 @@ let scriptLoadingState: ScriptLoadingState = "unloaded";
 let scriptLoadPromise: Promise<void> | null = null;
 let callbacks: Array<() => void> = [];
 
+/**
+ * The script element injected or adopted by the loader, and the language it
+ * requested. A `grecaptcha` adopted from the page without a matching tag has
+ * no element and is never reloaded.
+ */
+let scriptElement: HTMLScriptElement | null = null;
+let scriptLanguage: string | undefined;
+
+/**
+ * Incremented each time the script is torn down to switch language or
+ * retry, so mounted widgets know their `grecaptcha` is gone
+ */
+let scriptGeneration = 0;
+const reloadListeners = new Set<(generation: number) => void>();
+
+/**
+ * Options of the last script injection, reused by `retryReCaptchaLoad`
+ */
+let lastScriptOptions: ReCaptchaScriptOptions = {};
+
 /**
  * Generate a unique ID for reCAPTCHA container
  * @returns A unique string ID
@@ -90,42 +240,241 @@ if (typeof window !== "undefined") {
 }
 
 /**
- * Load the reCAPTCHA script with the specified language
- * @param language Optional language code for reCAPTCHA localization
- * @returns A promise that resolves when the script is loaded
+ * Wait for `grecaptcha.ready`, flush queued load callbacks and settle the
+ * loading promise. Rejects if `ready` never calls back within 15 seconds.
+ * @param resolve Resolves the script loading promise
+ * @param reject Rejects the script loading promise
  */
-export const loadReCaptchaScript = (language?: string): Promise<void> => {
-  // Return early if we're in a server environment
-  if (typeof window === "undefined") {
-    return Promise.resolve();
-  }
+const waitForGrecaptchaReady = (
+  resolve: () => void,
+  reject: (reason?: unknown) => void
+): void => {
+  let readyTimeoutId: number | null = null;
+  const checkGrecaptcha = () => {
+    if ((window as WindowWithReCaptcha).grecaptcha) {
+      try {
+        // start a 15-second guard in case grecaptcha.ready never calls back
+        readyTimeoutId = window.setTimeout(() => {
+          scriptLoadingState = "error";
+          reject(
+            new ReCaptchaError(
+              "ready-timeout",
+              "reCAPTCHA ready callback timed out after 15 seconds."
+            )
+          );
+        }, 15_000);
 
-  // If the script is already loaded, resolve immediately
-  if (isReCaptchaAvailable() && scriptLoadingState === "loaded") {
-    return Promise.resolve();
+        (window as WindowWithReCaptcha).grecaptcha?.ready(() => {
+          if (readyTimeoutId !== null) {
+            clearTimeout(readyTimeoutId);
+            readyTimeoutId = null;
+          }
+          // Execute all callbacks
+          callbacks.forEach((callback) => callback());
+          callbacks = [];
+          resolve();
+        });
+      } catch (err) {
+        if (readyTimeoutId !== null) {
+          clearTimeout(readyTimeoutId);
+          readyTimeoutId = null;
+        }
+        scriptLoadingState = "error";
+        reject(toReCaptchaError(err, "script-load-failed"));
+      }
+    } else {
+      setTimeout(checkGrecaptcha, 100);
+    }
+  };
+
+  checkGrecaptcha();
+};
+
+/**
+ * Find a script tag on the page requesting the URL the loader would inject,
+ * that may still run. Query parameters may appear in any order.
+ * @param scriptOptions Options of the script to find
+ * @returns The script element, or null
+ */
+const findReCaptchaScript = (
+  scriptOptions: ReCaptchaScriptOptions
+): HTMLScriptElement | null => {
+  // Once the page has loaded, a tag that didn't define grecaptcha failed
+  if (document.readyState === "complete" && !isReCaptchaAvailable()) {
+    return null;
   }
 
-  // If the script is currently loading, return the existing promise
-  if (scriptLoadPromise && scriptLoadingState === "loading") {
-    return scriptLoadPromise;
+  const normalize = (src: string) => {
+    const url = new URL(src, window.location.href);
+    url.searchParams.sort();
+    return url.toString();
+  };
+  const expected = normalize(buildReCaptchaScriptUrl(scriptOptions));
+
+  return (
+    Array.from(document.querySelectorAll<HTMLScriptElement>("script[src]")).find(
+      (script) => normalize(script.src) === expected
+    ) ?? null
+  );
+};
+
+/**
+ * Remove the script injected by the loader along with the `grecaptcha` it
+ * defined. A `grecaptcha` adopted from the page is left alone.
+ */
+const removeReCaptchaScript = () => {
+  if (!scriptElement) return;
+
+  scriptElement.remove();
+  scriptElement = null;
+  scriptLanguage = undefined;
+
+  // api.js pulls a versioned, language-specific script and keeps its state
+  // on window; both must go for a new script to take effect
+  document
+    .querySelectorAll('script[src*="/recaptcha/releases/"]')
+    .forEach((script) => script.remove());
+  const win = window as WindowWithReCaptcha & { ___grecaptcha_cfg?: unknown };
+  delete win.grecaptcha;
+  delete win.___grecaptcha_cfg;
+};
+
+/**
+ * Remove the current script and `grecaptcha` so the next load fetches the
+ * script again, then notify mounted widgets
+ */
+const teardownReCaptchaScript = () => {
+  removeReCaptchaScript();
+
+  scriptLoadingState = "unloaded";
+  scriptLoadPromise = null;
+  scriptGeneration += 1;
+  reloadListeners.forEach((listener) => listener(scriptGeneration));
+};
+
+/**
+ * Put the loader back in its initial `unloaded` state, forgetting the
+ * script it injected or adopted, e.g. between tests. Unlike a reload,
+ * mounted widgets aren't notified; loads still in flight are abandoned.
+ */
+export const resetReCaptchaLoader = (): void => {
+  removeReCaptchaScript();
+
+  scriptLoadingState = "unloaded";
+  scriptLoadPromise = null;
+  callbacks = [];
+  lastScriptOptions = {};
+  scriptGeneration += 1;
+};
+
+/**
+ * Subscribe to script reloads caused by a language switch or
+ * `retryReCaptchaLoad`. Widgets rendered with the previous `grecaptcha` must
+ * render again once the new script is ready.
+ * @param listener Called with the new script generation
+ * @returns A function that unsubscribes the listener
+ */
+export const subscribeToReCaptchaReload = (
+  listener: (generation: number) => void
+): (() => void) => {
+  reloadListeners.add(listener);
+  return () => {
+    reloadListeners.delete(listener);
+  };
+};
+
+/**
+ * Get the number of times the script was torn down and reloaded
+ * @returns The current script generation
+ */
+export const getScriptGeneration = (): number => scriptGeneration;
+
+/**
+ * Delay before the next attempt: exponential backoff capped at `maxDelayMs`,
+ * with jitter so many clients don't retry in lockstep
+ * @param attempt Number of failed attempts so far, starting at 0
+ * @param retry Backoff options
+ * @returns The delay in milliseconds
+ */
+const getRetryDelay = (
+  attempt: number,
+  { baseDelayMs = 1_000, maxDelayMs = 10_000 }: ReCaptchaRetryOptions = {}
+): number => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+/**
+ * Inject the script, retrying failed attempts with backoff. Each failed
+ * attempt's script is removed so the next one starts clean.
+ * @param scriptOptions Options of the script to inject
+ * @param attempt Number of failed attempts so far
+ * @param existingScript A matching script tag already on the page, waited
+ * for by the first attempt instead of injecting one
+ * @returns A promise that settles with the first successful attempt, or the
+ * last failure once retries are exhausted
+ */
+const loadWithRetry = async (
+  scriptOptions: ReCaptchaScriptOptions,
+  attempt = 0,
+  existingScript: HTMLScriptElement | null = null
+): Promise<void> => {
+  const generation = scriptGeneration;
+
+  try {
+    await injectReCaptchaScript(scriptOptions, existingScript);
+  } catch (error) {
+    // A teardown started a new load meanwhile; leave its state alone
+    if (generation !== scriptGeneration) throw error;
+
+    removeReCaptchaScript();
+    if (attempt >= (scriptOptions.retry?.retries ?? 2)) {
+      scriptLoadingState = "error";
+      scriptLoadPromise = null;
+      throw error;
+    }
+
+    scriptLoadingState = "loading";
+    await new Promise((resolve) =>
+      setTimeout(resolve, getRetryDelay(attempt, scriptOptions.retry))
+    );
+    if (generation !== scriptGeneration) throw error;
+
+    return loadWithRetry(scriptOptions, attempt + 1);
   }
+};
 
-  // Create a new promise to load the script
-  scriptLoadingState = "loading";
-  scriptLoadPromise = new Promise<void>((resolve, reject) => {
+/**
+ * Inject the script once and wait for `grecaptcha.ready`
+ * @param scriptOptions Options of the script to inject
+ * @param existingScript A script tag already on the page to wait for
+ * instead of injecting one
+ * @returns A promise that settles with this attempt
+ */
+const injectReCaptchaScript = (
+  scriptOptions: ReCaptchaScriptOptions,
+  existingScript: HTMLScriptElement | null = null
+): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
     try {
       // Create script element
-      const script = document.createElement("script");
-      script.async = true;
-      script.defer = true;
-
-      // Build the script URL with language parameter if provided
-      let scriptUrl = RECAPTCHA_SCRIPT_URL;
-      if (language) {
-        scriptUrl += `?hl=${language}`;
-      }
+      const script = existingScript ?? document.createElement("script");
 
-      script.src = scriptUrl;
+      if (!existingScript) {
+        script.async = true;
+        script.defer = true;
+
+        // Allow the script under a nonce-based Content-Security-Policy
+        if (scriptOptions.nonce) {
+          script.nonce = scriptOptions.nonce;
+        }
+
+        // Build the script URL with language and extra parameters if provided
+        script.src = toTrustedScriptUrl(
+          buildReCaptchaScriptUrl(scriptOptions),
+          scriptOptions.trustedTypesPolicyName
+        );
+      }
 
       // Set up event handlers
       script.onload = () => {
@@ -133,7 +482,8 @@ export const loadReCaptchaScript = (language?: string): Promise<void> => {
         if (!(window as WindowWithReCaptcha).grecaptcha) {
           scriptLoadingState = "error";
           reject(
-            new Error(
+            new ReCaptchaError(
+              "script-load-failed",
               "reCAPTCHA script loaded, but grecaptcha object is not available."
             )
           );
@@ -142,63 +492,165 @@ export const loadReCaptchaScript = (language?: string): Promise<void> => {
 
         scriptLoadingState = "loaded";
 
-        // Wait for grecaptcha to be fully initialized
-        let readyTimeoutId: number | null = null;
-        const checkGrecaptcha = () => {
-          if ((window as WindowWithReCaptcha).grecaptcha) {
-            try {
-              // start a 15-second guard in case grecaptcha.ready never calls back
-              readyTimeoutId = window.setTimeout(() => {
-                scriptLoadingState = "error";
-                reject(
-                  new Error(
-                    "reCAPTCHA ready callback timed out after 15 seconds."
-                  )
-                );
-              }, 15_000);
-
-              (window as WindowWithReCaptcha).grecaptcha?.ready(() => {
-                if (readyTimeoutId !== null) {
-                  clearTimeout(readyTimeoutId);
-                  readyTimeoutId = null;
-                }
-                // Execute all callbacks
-                callbacks.forEach((callback) => callback());
-                callbacks = [];
-                resolve();
-              });
-            } catch (err) {
-              if (readyTimeoutId !== null) {
-                clearTimeout(readyTimeoutId);
-                readyTimeoutId = null;
-              }
-              scriptLoadingState = "error";
-              reject(err);
-            }
-          } else {
-            setTimeout(checkGrecaptcha, 100);
-          }
-        };
-
-        checkGrecaptcha();
+        waitForGrecaptchaReady(resolve, reject);
       };
 
       script.onerror = () => {
         scriptLoadingState = "error";
-        reject(new Error("Failed to load reCAPTCHA script from Google."));
+        reject(
+          new ReCaptchaError(
+            "script-load-failed",
+            "Failed to load reCAPTCHA script from Google."
+          )
+        );
       };
 
       // Append the script to the document head
-      document.head.appendChild(script);
+      if (!existingScript) {
+        document.head.appendChild(script);
+      }
+      scriptElement = script;
+      scriptLanguage = scriptOptions.language;
     } catch (error) {
       scriptLoadingState = "error";
-      reject(error);
+      reject(toReCaptchaError(error, "script-load-failed"));
     }
   });
 
+/**
+ * Load the reCAPTCHA script with the specified language
+ * @param options Optional language code for reCAPTCHA localization, or the
+ * full script options (language, host, URL, extra query parameters, CSP
+ * nonce and Trusted Types policy)
+ *
+ * Passing a different `language` than the injected script's reloads the
+ * script and re-renders mounted widgets. Without a language, whichever
+ * script is loaded is used.
+ *
+ * @returns A promise that resolves when the script is loaded, or rejects with
+ * a `ReCaptchaError` (`script-load-failed` or `ready-timeout`)
+ */
+export const loadReCaptchaScript = (
+  options?: string | ReCaptchaScriptOptions
+): Promise<void> => {
+  // Return early if we're in a server environment
+  if (typeof window === "undefined") {
+    return Promise.resolve();
+  }
+
+  const scriptOptions: ReCaptchaScriptOptions =
+    typeof options === "string" ? { language: options } : options ?? {};
+
+  // Google's script can't change `hl` once loaded, so a new language needs
+  // a fresh script
+  const languageChanged =
+    scriptElement !== null &&
+    scriptOptions.language !== undefined &&
+    scriptOptions.language !== scriptLanguage;
+
+  if (languageChanged) {
+    if (scriptLoadingState === "loading" && scriptLoadPromise) {
+      // Let the current load settle before replacing it
+      return scriptLoadPromise
+        .catch(() => undefined)
+        .then(() => loadReCaptchaScript(scriptOptions));
+    }
+    teardownReCaptchaScript();
+  }
+
+  // If the script is already loaded, resolve immediately
+  if (isReCaptchaAvailable() && scriptLoadingState === "loaded") {
+    return Promise.resolve();
+  }
+
+  // If the script is currently loading, return the existing promise
+  if (scriptLoadPromise && scriptLoadingState === "loading") {
+    return scriptLoadPromise;
+  }
+
+  // Adopt a script tag for the same URL that is already on the page (e.g.
+  // rendered on the server) instead of injecting a duplicate
+  const existingScript = findReCaptchaScript(scriptOptions);
+  if (existingScript) {
+    scriptElement = existingScript;
+    scriptLanguage = scriptOptions.language;
+  }
+
+  // Adopt a grecaptcha object that is already on the page (e.g. a script tag
+  // added by hand or a test double) instead of injecting another script
+  if (isReCaptchaAvailable()) {
+    scriptLoadingState = "loaded";
+    scriptLoadPromise = new Promise<void>((resolve, reject) => {
+      waitForGrecaptchaReady(resolve, reject);
+    });
+    return scriptLoadPromise;
+  }
+
+  // Create a new promise to load the script
+  scriptLoadingState = "loading";
+  lastScriptOptions = scriptOptions;
+  scriptLoadPromise = loadWithRetry(scriptOptions, 0, existingScript);
+
   return scriptLoadPromise;
 };
 
+/**
+ * Start fetching Google's script without running it, e.g. when a route
+ * that shows a widget is prefetched. Adds the `<link>` hints from
+ * `getReCaptchaResourceHints` to `<head>`, skipping ones already present.
+ * Does nothing once the script is loading or loaded.
+ * @param options Language and script options, as later passed to the loader
+ */
+export const preloadReCaptcha = (
+  options?: string | ReCaptchaScriptOptions
+): void => {
+  if (typeof window === "undefined" || scriptLoadingState !== "unloaded") {
+    return;
+  }
+
+  const links = Array.from(document.head.querySelectorAll("link"));
+  getReCaptchaResourceHints(options).forEach((hint) => {
+    const exists = links.some(
+      (link) =>
+        link.rel === hint.rel && link.getAttribute("href") === hint.href
+    );
+    if (exists) return;
+
+    const link = document.createElement("link");
+    link.rel = hint.rel;
+    link.href = hint.href;
+    if (hint.as) {
+      link.as = hint.as;
+    }
+    if (hint.nonce) {
+      link.nonce = hint.nonce;
+    }
+    document.head.appendChild(link);
+  });
+};
+
+/**
+ * Load the script again after a failure, e.g. from a "Try again" button.
+ *
+ * Clears the `error` state left by a failed load, injects a fresh script
+ * with the options of the last attempt and re-renders mounted widgets once
+ * it is ready. While a load is in flight, its promise is returned instead.
+ *
+ * @returns A promise that resolves when the script is ready, or rejects with
+ * a `ReCaptchaError` once the retries are exhausted again
+ */
+export const retryReCaptchaLoad = (): Promise<void> => {
+  if (typeof window === "undefined") {
+    return Promise.resolve();
+  }
+
+  if (scriptLoadingState === "error") {
+    teardownReCaptchaScript();
+  }
+
+  return loadReCaptchaScript(lastScriptOptions);
+};
+
 /**
  * Register a callback to be executed when reCAPTCHA is loaded
  * @param callback Function to execute when reCAPTCHA is ready